@@ -0,0 +1,218 @@
+import { ErrorTaskPolicyType, FetchContext } from './define';
+import { PromiseCacher } from './promise-cacher';
+import { MemoryStorageAdapter } from './storage/memory-storage-adapter';
+import { delay } from './util/delay';
+
+/**
+ * Creates a fetch function that resolves after a delay unless its signal aborts first.
+ */
+const createAbortableFetchFn = (ms: number = 50) =>
+  jest.fn(
+    (input: string, { signal }: FetchContext) =>
+      new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(() => resolve(`value-${input}`), ms);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(signal.reason as Error);
+        });
+      }),
+  );
+
+describe('PromiseCacher - AbortSignal cancellation', () => {
+  let cacher: PromiseCacher<string, string>;
+  let fetchFn: ReturnType<typeof createAbortableFetchFn>;
+
+  const signalOf = (callIndex: number = 0): AbortSignal =>
+    fetchFn.mock.calls[callIndex][1].signal;
+
+  beforeEach(() => {
+    fetchFn = createAbortableFetchFn();
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  it('should pass an AbortSignal to the fetch function', async () => {
+    cacher = new PromiseCacher(fetchFn);
+
+    expect(await cacher.get('key')).toBe('value-key');
+    expect(fetchFn).toHaveBeenCalledWith('key', {
+      signal: expect.any(AbortSignal),
+    });
+    expect(signalOf().aborted).toBe(false);
+  });
+
+  it('should abort the fetch when the timeout fires', async () => {
+    cacher = new PromiseCacher(fetchFn, { fetchingPolicy: { timeoutMs: 10 } });
+
+    await expect(cacher.get('key')).rejects.toThrow('timeout');
+
+    expect(signalOf().aborted).toBe(true);
+    expect(signalOf().reason.message).toContain('timeout');
+  });
+
+  it('should abort the fetch when the entry is deleted', async () => {
+    cacher = new PromiseCacher(fetchFn);
+
+    const promise = cacher.get('key');
+    cacher.delete('key');
+
+    await expect(promise).rejects.toThrow('deleted');
+    expect(signalOf().aborted).toBe(true);
+  });
+
+  it('should reject callers of a queued entry that is deleted', async () => {
+    cacher = new PromiseCacher(fetchFn, { fetchingPolicy: { concurrency: 1 } });
+
+    const running = cacher.get('running');
+    const queued = cacher.get('queued');
+    cacher.delete('queued');
+
+    await expect(queued).rejects.toThrow('deleted');
+    expect(await running).toBe('value-running');
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should settle callers of a queued entry with the value replacing it', async () => {
+    cacher = new PromiseCacher(fetchFn, { fetchingPolicy: { concurrency: 1 } });
+
+    const running = cacher.get('running');
+    const queued = cacher.get('queued');
+    cacher.set('queued', 'manual');
+
+    expect(await queued).toBe('manual');
+    expect(cacher.statistics().operations.queuedRequests).toBe(0);
+    expect(await cacher.get('queued')).toBe('manual');
+    expect(await running).toBe('value-running');
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let a fetch replaced by a forced update settle for its callers', async () => {
+    cacher = new PromiseCacher(fetchFn, { fetchingPolicy: { concurrency: 1 } });
+    fetchFn.mockImplementationOnce(async () => {
+      await delay(20);
+      return 'old-value';
+    });
+
+    const replaced = cacher.get('key');
+    const updated = cacher.get('key', { forceUpdate: true });
+
+    // The replaced fetch keeps its slot, so the forced update waits for it
+    const { operations } = cacher.statistics();
+    expect(operations.activeRequests).toBe(1);
+    expect(operations.queuedRequests).toBe(1);
+    expect(await replaced).toBe('old-value');
+    expect(signalOf(0).aborted).toBe(false);
+    expect(await updated).toBe('value-key');
+    expect(await cacher.get('key')).toBe('value-key');
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(cacher.statistics().operations.activeRequests).toBe(0);
+  });
+
+  it('should abort every in-flight fetch on clear', async () => {
+    cacher = new PromiseCacher(fetchFn);
+
+    const promises = [cacher.get('key1'), cacher.get('key2')];
+    cacher.clear();
+
+    await expect(promises[0]).rejects.toThrow('cleared');
+    await expect(promises[1]).rejects.toThrow('cleared');
+    expect(signalOf(0).aborted).toBe(true);
+    expect(signalOf(1).aborted).toBe(true);
+  });
+
+  it('should keep the fetch running while other callers still wait', async () => {
+    cacher = new PromiseCacher(fetchFn);
+    const controller = new AbortController();
+
+    const cancelled = cacher.get('key', { signal: controller.signal });
+    const waiting = cacher.get('key');
+    controller.abort(new Error('caller cancelled'));
+
+    await expect(cancelled).rejects.toThrow('caller cancelled');
+    expect(await waiting).toBe('value-key');
+    expect(signalOf().aborted).toBe(false);
+  });
+
+  it('should abort the fetch once every waiting caller has cancelled', async () => {
+    cacher = new PromiseCacher(fetchFn);
+    const controller1 = new AbortController();
+    const controller2 = new AbortController();
+
+    const promise1 = cacher.get('key', { signal: controller1.signal });
+    const promise2 = cacher.get('key', { signal: controller2.signal });
+
+    controller1.abort(new Error('first cancelled'));
+    await expect(promise1).rejects.toThrow('first cancelled');
+    expect(signalOf().aborted).toBe(false);
+
+    controller2.abort(new Error('second cancelled'));
+    await expect(promise2).rejects.toThrow('second cancelled');
+    expect(signalOf().aborted).toBe(true);
+
+    await delay(10);
+    expect(cacher.has('key')).toBe(false);
+  });
+
+  it('should fetch again for callers arriving after the fetch was aborted', async () => {
+    fetchFn.mockImplementationOnce(() => new Promise<string>(() => {}));
+    cacher = new PromiseCacher(fetchFn);
+    const controller = new AbortController();
+
+    const cancelled = cacher.get('key', { signal: controller.signal });
+    controller.abort(new Error('first cancelled'));
+    await expect(cancelled).rejects.toThrow('first cancelled');
+
+    expect(await cacher.get('key')).toBe('value-key');
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject immediately for an already aborted caller signal', async () => {
+    cacher = new PromiseCacher(fetchFn);
+    const controller = new AbortController();
+    controller.abort(new Error('already cancelled'));
+
+    await expect(
+      cacher.get('key', { signal: controller.signal }),
+    ).rejects.toThrow('already cancelled');
+  });
+
+  it('should ignore caller signals once the value is cached', async () => {
+    cacher = new PromiseCacher(fetchFn);
+    const controller = new AbortController();
+
+    await cacher.get('key');
+    const promise = cacher.get('key', { signal: controller.signal });
+    controller.abort();
+
+    expect(await promise).toBe('value-key');
+  });
+
+  it('should support forceUpdate through options', async () => {
+    cacher = new PromiseCacher(fetchFn);
+
+    await cacher.get('key');
+    await cacher.get('key', { forceUpdate: true });
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache aborted fetches', async () => {
+    const storage = new MemoryStorageAdapter<string, string>();
+    cacher = new PromiseCacher(fetchFn, {
+      cachePolicy: { errorTaskPolicy: ErrorTaskPolicyType.CACHE },
+      storagePolicy: { adapter: storage },
+    });
+    const controller = new AbortController();
+
+    const promise = cacher.get('key', { signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toBeDefined();
+    await delay(10);
+
+    expect(cacher.has('key')).toBe(false);
+    expect(storage.size).toBe(0);
+  });
+});
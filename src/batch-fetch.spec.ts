@@ -0,0 +1,162 @@
+import { cacheEntry } from './cache-entry';
+import { CacherConfig } from './define';
+import { PromiseCacher } from './promise-cacher';
+import { clearAfterEach } from './spec-helpers';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - batch fetching', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+  let batchFetchFn: jest.Mock;
+
+  const clearLater = clearAfterEach();
+  const createCacher = <INPUT = string>(config?: CacherConfig) =>
+    clearLater(new PromiseCacher<string, INPUT>(mockFetchFn, config));
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async (key: string) => `single-${key}`);
+    batchFetchFn = jest.fn(async (keys: string[]) =>
+      keys.map((key) => `value-${key}`),
+    );
+    cacher = createCacher({
+      fetchingPolicy: { batchFetchFn },
+    });
+  });
+
+  afterEach(() => {
+    cacher = undefined;
+  });
+
+  describe('getMany', () => {
+    it('should fetch every miss with a single batched call', async () => {
+      const values = await cacher.getMany(['a', 'b', 'c']);
+
+      expect(values).toEqual(['value-a', 'value-b', 'value-c']);
+      expect(batchFetchFn).toHaveBeenCalledTimes(1);
+      expect(batchFetchFn).toHaveBeenCalledWith(['a', 'b', 'c'], {
+        signal: expect.any(AbortSignal),
+      });
+      expect(mockFetchFn).not.toHaveBeenCalled();
+    });
+
+    it('should serve hits from the cache and batch only the misses', async () => {
+      await cacher.get('a');
+
+      expect(await cacher.getMany(['a', 'b', 'c'])).toEqual([
+        'value-a',
+        'value-b',
+        'value-c',
+      ]);
+      expect(batchFetchFn).toHaveBeenCalledTimes(2);
+      expect(batchFetchFn.mock.calls[1][0]).toEqual(['b', 'c']);
+    });
+
+    it('should give each key its own cache entry', async () => {
+      await cacher.getMany(['a', 'b']);
+      cacher.delete('a');
+
+      expect(cacher.has('a')).toBe(false);
+      expect(cacher.has('b')).toBe(true);
+      expect(await cacher.get('a')).toBe('value-a');
+      expect(batchFetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the fetch function per key without batchFetchFn', async () => {
+      cacher = createCacher();
+
+      expect(await cacher.getMany(['a', 'b'])).toEqual([
+        'single-a',
+        'single-b',
+      ]);
+      expect(mockFetchFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should coalesce concurrent get() calls', async () => {
+    const values = await Promise.all([cacher.get('a'), cacher.get('b')]);
+
+    expect(values).toEqual(['value-a', 'value-b']);
+    expect(batchFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should match Map results by cache key', async () => {
+    const objectCacher = createCacher<{ id: number }>({
+      fetchingPolicy: {
+        batchFetchFn: async (inputs: { id: number }[]) =>
+          new Map(inputs.map((input) => [{ id: input.id }, `id-${input.id}`])),
+      },
+    });
+
+    expect(await objectCacher.getMany([{ id: 1 }, { id: 2 }])).toEqual([
+      'id-1',
+      'id-2',
+    ]);
+  });
+
+  it('should reject only the keys missing from or failed in the result', async () => {
+    batchFetchFn.mockResolvedValueOnce(
+      new Map<string, string | Error>([
+        ['a', 'value-a'],
+        ['b', new Error('b failed')],
+      ]),
+    );
+
+    const [a, b, c] = ['a', 'b', 'c'].map((key) => cacher.get(key));
+
+    expect(await a).toBe('value-a');
+    await expect(b).rejects.toThrow('b failed');
+    await expect(c).rejects.toThrow('missing key');
+    await delay(10);
+    expect(cacher.has('a')).toBe(true);
+    expect(cacher.has('b')).toBe(false);
+    expect(cacher.has('c')).toBe(false);
+  });
+
+  it('should reject every key when the batch call fails', async () => {
+    batchFetchFn.mockRejectedValueOnce(new Error('backend down'));
+
+    await expect(cacher.getMany(['a', 'b'])).rejects.toThrow('backend down');
+    await delay(10);
+
+    expect(cacher.cacheCount).toBe(0);
+  });
+
+  it('should honor per-entry options in batch results', async () => {
+    batchFetchFn.mockResolvedValueOnce([
+      cacheEntry('short-lived', { ttlMs: 20 }),
+      'long-lived',
+    ]);
+
+    await cacher.getMany(['a', 'b']);
+    await delay(30);
+    await cacher.getMany(['a', 'b']);
+
+    expect(batchFetchFn).toHaveBeenCalledTimes(2);
+    expect(batchFetchFn.mock.calls[1][0]).toEqual(['a']);
+  });
+
+  it('should split batches at maxBatchSize', async () => {
+    cacher = createCacher({
+      fetchingPolicy: { batchFetchFn, maxBatchSize: 2 },
+    });
+
+    await cacher.getMany(['a', 'b', 'c']);
+
+    expect(batchFetchFn).toHaveBeenCalledTimes(2);
+    expect(batchFetchFn.mock.calls[0][0]).toEqual(['a', 'b']);
+    expect(batchFetchFn.mock.calls[1][0]).toEqual(['c']);
+  });
+
+  it('should collect misses for batchWindowMs', async () => {
+    cacher = createCacher({
+      fetchingPolicy: { batchFetchFn, batchWindowMs: 30 },
+    });
+
+    const first = cacher.get('a');
+    await delay(10);
+    const second = cacher.get('b');
+    await Promise.all([first, second]);
+
+    expect(batchFetchFn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,186 @@
+import { CacheEntry, cacheEntry } from './cache-entry';
+import {
+  CacherConfig,
+  ErrorTaskPolicyType,
+  ExpirationStrategyType,
+} from './define';
+import { PromiseCacher } from './promise-cacher';
+import { clearAfterEach } from './spec-helpers';
+import { MemoryStorageAdapter } from './storage/memory-storage-adapter';
+import { delay } from './util/delay';
+
+describe('CacheEntry', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  const clearLater = clearAfterEach();
+  const createCacher = (config?: CacherConfig) =>
+    clearLater(new PromiseCacher<string, string>(mockFetchFn, config));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchFn = jest.fn();
+  });
+
+  afterEach(() => {
+    cacher = undefined;
+    jest.restoreAllMocks();
+  });
+
+  it('should wrap a value with its options', () => {
+    const entry = cacheEntry('value', { ttlMs: 100 });
+
+    expect(entry).toBeInstanceOf(CacheEntry);
+    expect(entry.value).toBe('value');
+    expect(entry.options).toEqual({ ttlMs: 100 });
+    expect(cacheEntry('value').options).toEqual({});
+  });
+
+  describe('returned by the fetch function', () => {
+    beforeEach(() => {
+      cacher = createCacher({ cachePolicy: { ttlMs: 1000 } });
+    });
+
+    it('should unwrap the value', async () => {
+      mockFetchFn.mockResolvedValue(cacheEntry('value', { ttlMs: 500 }));
+
+      expect(await cacher.get('key')).toBe('value');
+      expect(await cacher.get('key')).toBe('value');
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honor a per-entry TTL', async () => {
+      mockFetchFn
+        .mockResolvedValueOnce(cacheEntry('short-lived', { ttlMs: 30 }))
+        .mockResolvedValueOnce('default-ttl');
+
+      expect(await cacher.get('key')).toBe('short-lived');
+      await delay(50);
+
+      expect(await cacher.get('key')).toBe('default-ttl');
+      await delay(50);
+      expect(await cacher.get('key')).toBe('default-ttl');
+      expect(mockFetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not keep noCache entries', async () => {
+      mockFetchFn.mockResolvedValue(cacheEntry('value', { noCache: true }));
+
+      expect(await cacher.get('key')).toBe('value');
+      await delay(10);
+
+      expect(cacher.has('key')).toBe(false);
+      expect(await cacher.get('key')).toBe('value');
+      expect(mockFetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject with a wrapped error', async () => {
+      mockFetchFn.mockResolvedValue(cacheEntry(new Error('not found')));
+
+      await expect(cacher.get('key')).rejects.toThrow('not found');
+    });
+
+    it('should cache an error with a per-entry TTL despite the IGNORE policy', async () => {
+      expect(cacher.errorTaskPolicy).toBe(ErrorTaskPolicyType.IGNORE);
+      mockFetchFn
+        .mockResolvedValueOnce(
+          cacheEntry(new Error('not found'), { ttlMs: 30 }),
+        )
+        .mockResolvedValueOnce('value');
+
+      await expect(cacher.get('key')).rejects.toThrow('not found');
+      await delay(10);
+      await expect(cacher.get('key')).rejects.toThrow('not found');
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+
+      await delay(40);
+      expect(await cacher.get('key')).toBe('value');
+    });
+
+    it('should not cache a failed refresh for the TTL of the refreshed entry', async () => {
+      cacher = createCacher({
+        cachePolicy: {
+          ttlMs: 1000,
+          expirationStrategy: ExpirationStrategyType.STALE_WHILE_REVALIDATE,
+        },
+      });
+      mockFetchFn
+        .mockResolvedValueOnce(
+          cacheEntry('first-value', { ttlMs: 20, staleMs: 20 }),
+        )
+        .mockImplementationOnce(async () => {
+          await delay(40);
+          throw new Error('failure');
+        })
+        .mockResolvedValueOnce('second-value');
+
+      await cacher.get('key');
+      await delay(30);
+      expect(await cacher.get('key')).toBe('first-value');
+      await delay(50); // refresh failed after the stale window closed
+
+      expect(await cacher.get('key')).toBe('second-value');
+      expect(mockFetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should honor a per-entry max-staleness window', async () => {
+      cacher = createCacher({
+        cachePolicy: {
+          ttlMs: 20,
+          maxStaleMs: 1000,
+          expirationStrategy: ExpirationStrategyType.STALE_WHILE_REVALIDATE,
+        },
+      });
+      mockFetchFn
+        .mockResolvedValueOnce(cacheEntry('first-value', { staleMs: 10 }))
+        .mockResolvedValueOnce('second-value');
+
+      await cacher.get('key');
+      await delay(50);
+
+      // Past the entry's own window, so callers wait for the refresh
+      expect(await cacher.get('key')).toBe('second-value');
+    });
+
+    it('should write the per-entry TTL to the storage adapter', async () => {
+      const storage = new MemoryStorageAdapter<string, string>();
+      cacher = createCacher({
+        cachePolicy: { ttlMs: 1000 },
+        storagePolicy: { adapter: storage },
+      });
+      mockFetchFn.mockResolvedValue(cacheEntry('value', { ttlMs: 30 }));
+
+      await cacher.get('key');
+      await delay(50);
+
+      expect(storage.size).toBe(1);
+      expect(await storage.get((cacher as any).transformCacheKey('key'))).toBe(
+        undefined,
+      );
+    });
+  });
+
+  describe('passed to set()', () => {
+    beforeEach(() => {
+      cacher = createCacher({ cachePolicy: { ttlMs: 1000 } });
+    });
+
+    it('should honor a per-entry TTL', async () => {
+      mockFetchFn.mockResolvedValue('fetched-value');
+      cacher.set('key', 'manual-value', { ttlMs: 30 });
+
+      expect(await cacher.get('key')).toBe('manual-value');
+      await delay(50);
+
+      expect(await cacher.get('key')).toBe('fetched-value');
+    });
+
+    it('should cache a manually set error for its TTL', async () => {
+      cacher.set('key', new Error('failure'), { ttlMs: 1000 });
+      await delay(10);
+
+      await expect(cacher.get('key')).rejects.toThrow('failure');
+      expect(mockFetchFn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { CacheEntryOptions } from './define';
+
+/**
+ * A fetched value together with per-entry cache options.
+ * Return one from the fetch function to override the cacher's defaults for a single entry,
+ * e.g. to honor the expiry hints an upstream API sends with each object.
+ *
+ * @template OUTPUT - The type of the wrapped value
+ */
+export class CacheEntry<OUTPUT = any> {
+  /**
+   * Creates a new cache entry.
+   *
+   * @param value - The value to cache, or an Error to reject with
+   * @param options - Per-entry options such as ttlMs, staleMs or noCache
+   */
+  public constructor(
+    public readonly value: OUTPUT | Error,
+    public readonly options: CacheEntryOptions = {},
+  ) {}
+}
+
+/**
+ * Wraps a fetched value with per-entry cache options.
+ *
+ * @template OUTPUT - The type of the wrapped value
+ * @param value - The value to cache, or an Error to reject with
+ * @param options - Per-entry options such as ttlMs, staleMs or noCache
+ * @returns A CacheEntry to return from the fetch function
+ *
+ * @example
+ * ```typescript
+ * const cacher = new PromiseCacher(async (id: string) => {
+ *   const response = await fetch(`/api/items/${id}`);
+ *   if (!response.ok) {
+ *     return cacheEntry(new Error(response.statusText), { ttlMs: 5000 });
+ *   }
+ *   return cacheEntry(await response.json(), { ttlMs: 60 * 1000 });
+ * });
+ * ```
+ */
+export function cacheEntry<OUTPUT = any>(
+  value: OUTPUT | Error,
+  options: CacheEntryOptions = {},
+): CacheEntry<OUTPUT> {
+  return new CacheEntry(value, options);
+}
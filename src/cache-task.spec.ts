@@ -241,13 +241,13 @@ describe('CacheTask', () => {
           errorTaskPolicy: ErrorTaskPolicyType.IGNORE,
         },
       });
-      const deleteSpy = jest.spyOn(releaseCacher, 'delete');
+      const discardSpy = jest.spyOn(releaseCacher, 'discard');
       const promise = Promise.reject(new Error('Test error'));
       const task = new CacheTask(releaseCacher, 'test-key', promise);
 
       await delay(10); // Allow error to be caught
 
-      expect(deleteSpy).toHaveBeenCalledWith('test-key');
+      expect(discardSpy).toHaveBeenCalledWith('test-key');
     });
 
     it('should not call releaseSelf when error occurs and errorTaskPolicy is CACHE', async () => {
@@ -257,13 +257,13 @@ describe('CacheTask', () => {
           errorTaskPolicy: ErrorTaskPolicyType.CACHE,
         },
       });
-      const deleteSpy = jest.spyOn(cacheCacher, 'delete');
+      const discardSpy = jest.spyOn(cacheCacher, 'discard');
       const promise = Promise.reject(new Error('Test error'));
       const task = new CacheTask(cacheCacher, 'test-key', promise);
 
       await delay(10); // Allow error to be caught
 
-      expect(deleteSpy).not.toHaveBeenCalled();
+      expect(discardSpy).not.toHaveBeenCalled();
     });
   });
 
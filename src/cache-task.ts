@@ -1,13 +1,21 @@
 import { cloneDeep } from 'lodash';
+import { CacheEntry } from './cache-entry';
+import { CircuitOpenError, TimeoutError } from './errors';
 import {
+  CacheEntryOptions,
+  CacheSnapshotEntry,
+  CacheTaskOptions,
   CacheTaskStatusType,
+  CacheTaskTimings,
   CalcCacheScoreFn,
   ErrorTaskPolicyType,
   ExpirationStrategyType,
 } from './define';
 import { PromiseCacher } from './promise-cacher';
+import { abortable, abortReason } from './util/abortable';
 import { calcCacheScoreDefaultFn } from './util/calc-cache-score';
 import { PromiseHolder } from './util/promise-holder';
+import { retry } from './util/retry';
 import { sizeof } from './util/sizeof';
 import { limitTimeout } from './util/timeout';
 
@@ -36,10 +44,6 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
   /** Timestamp when the async operation was resolved (success or error) */
   public resolvedAt: number;
 
-  public get order(): number {
-    return this.createdAt - this.usedCount * 1000;
-  }
-
   /** Timestamp when the fetch operation started */
   public get fetchStartedAt(): number {
     return this.promiseHolder.liberatedAt;
@@ -60,21 +64,170 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
     return this.resolvedAt - this.fetchStartedAt;
   }
 
+  /** Lifecycle timestamps and durations, as carried by cache event payloads */
+  public get timings(): CacheTaskTimings {
+    return {
+      createdAt: this.createdAt,
+      fetchStartedAt: this.fetchStartedAt,
+      resolvedAt: this.resolvedAt,
+      lastAccessedAt: this.lastAccessedAt,
+      queuedTime: this.queuedTime,
+      responseTime: this.responseTime,
+    };
+  }
+
+  /** Time to live of this entry in milliseconds, defaults to the cacher's ttlMs */
+  public get ttlMs(): number {
+    return this.entryTtlMs ?? this.cacher.ttlMs;
+  }
+
   /** Error that occurred during the async operation execution */
   private taskError: Error;
 
+  /** The previous task this task is refreshing, served until this one resolves */
+  public staleTask?: CacheTask<OUTPUT, INPUT>;
+
+  /** Whether the storage adapter is skipped when fetching */
+  private bypassStorage: boolean;
+
+  /** Transformed cache key the task is held under, undefined for tasks created outside a cacher */
+  public readonly taskKey?: string;
+
+  /** Whether the output was read from the storage adapter instead of fetched */
+  private isRestored: boolean = false;
+
+  /** Per-entry time to live overriding the cacher's ttlMs */
+  private entryTtlMs?: number;
+
+  /** Whether the per-entry TTL was given for this output rather than carried over from the refreshed entry */
+  private hasOwnTtl: boolean = false;
+
+  /** Per-entry max-staleness window overriding the cacher's maxStaleMs */
+  private entryStaleMs?: number;
+
+  /** Tags the entry can be invalidated by */
+  public tags: string[] = [];
+
+  /** Whether the output is handed to waiting callers without being kept */
+  private noCache: boolean = false;
+
+  /** Aborts the fetch on timeout, deletion, or when every waiting caller cancelled */
+  private abortController = new AbortController();
+
+  /** Number of callers waiting on the unsettled output, cancelled callers excluded */
+  private waiterCount: number = 0;
+
+  /** Whether this task was aborted before it settled, after which it is never served */
+  public isAborted: boolean = false;
+
+  /** Number of calls made to the fetch function, retries included */
+  public attempts: number = 0;
+
+  /** Whether the fetch exceeded the cacher's timeout */
+  private isTimedOut: boolean = false;
+
+  /** Whether the output comes from run() rather than a manually set value */
+  private isFetched: boolean = false;
+
+  /** Max-staleness window of this entry in milliseconds, defaults to the cacher's maxStaleMs */
+  public get maxStaleMs(): number {
+    return this.entryStaleMs ?? this.cacher.maxStaleMs;
+  }
+
+  /**
+   * Whether a failed output stays cached.
+   * An explicit per-entry TTL caches the error regardless of the error task policy, unless it
+   * was carried over from the refreshed entry. Aborted fetches and circuit breaker rejections are never cached.
+   */
+  private get isErrorCached(): boolean {
+    if (
+      this.isAborted ||
+      this.taskError instanceof CircuitOpenError ||
+      this.isServingStaleTask
+    ) {
+      return false;
+    }
+    return (
+      this.cacher.errorTaskPolicy === ErrorTaskPolicyType.CACHE ||
+      this.hasOwnTtl
+    );
+  }
+
+  /**
+   * Checks whether this entry, or the stale entry it is revalidating, carries a tag.
+   *
+   * @param tag - The tag to look for
+   * @returns True if the tag is present
+   */
+  public hasTag(tag: string): boolean {
+    return this.tags.includes(tag) || this.staleTask?.hasTag(tag) === true;
+  }
+
+  /**
+   * Per-entry options of this entry, carried over to the task refreshing it.
+   * The TTL of a restored entry only reflects the time its record had left, so it is not carried over.
+   */
+  public get entryOptions(): CacheEntryOptions {
+    return {
+      ttlMs: this.isRestored ? undefined : this.entryTtlMs,
+      staleMs: this.entryStaleMs,
+      tags: this.tags.slice(),
+    };
+  }
+
+  /** Whether the task resolved with a value rather than an error */
+  public get hasValue(): boolean {
+    return !!this.resolvedAt && !this.taskError;
+  }
+
+  /** Whether the previous task this one is refreshing still has a value to serve */
+  public get isServingStaleTask(): boolean {
+    const status = this.staleTask?.status;
+    return (
+      (status === CacheTaskStatusType.STALE ||
+        status === CacheTaskStatusType.ACTIVE) &&
+      this.staleTask.hasValue
+    );
+  }
+
+  /**
+   * Whether this fresh value is old enough to be refreshed ahead of expiry.
+   * Never true with the IDLE strategy, where every hit extends the entry's lifetime.
+   */
+  public get isDueForRefresh(): boolean {
+    const ratio = this.cacher.refreshAheadRatio;
+    if (
+      ratio === undefined ||
+      !this.hasValue ||
+      this.cacher.expirationStrategy === ExpirationStrategyType.IDLE
+    ) {
+      return false;
+    }
+    return Date.now() - this.resolvedAt >= this.ttlMs * ratio;
+  }
+
   /**
    * Creates a new cache task instance.
    *
    * @param cacher - The parent PromiseCacher instance that manages this task
    * @param input - The input key used to identify this cache entry
    * @param asyncOutput - The promise that will produce the cached output value
+   * @param options - Per-entry, revalidation and storage options for this task
    */
   public constructor(
     private cacher: PromiseCacher<OUTPUT, INPUT>,
     public input: INPUT,
     _asyncOutput?: Promise<OUTPUT> | OUTPUT | Error,
+    options: CacheTaskOptions<OUTPUT, INPUT> = {},
   ) {
+    this.staleTask = options.staleTask;
+    this.bypassStorage = options.bypassStorage === true;
+    this.taskKey = options.taskKey;
+    this.applyEntryOptions(options);
+    this.hasOwnTtl = !this.staleTask && this.entryTtlMs !== undefined;
+    if (options.snapshotEntry) {
+      this.restoreSnapshotEntry(options.snapshotEntry);
+    }
     this.setPromiseHandle();
     if (_asyncOutput instanceof Error) {
       this.promiseHolder.reject(_asyncOutput);
@@ -83,22 +236,211 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
     }
   }
 
+  /**
+   * Takes over the timing and usage of an imported snapshot entry,
+   * so the entry expires when it would have without the export.
+   *
+   * @param entry - The snapshot entry
+   */
+  private restoreSnapshotEntry(entry: CacheSnapshotEntry<OUTPUT, INPUT>): void {
+    this.isRestored = true;
+    this.createdAt = entry.createdAt;
+    this.resolvedAt = entry.resolvedAt;
+    this.lastAccessedAt = entry.lastAccessedAt;
+    this.usedCount = entry.usedCount;
+  }
+
   public run(): void {
     if (this.promiseHolder.isLiberated) return;
-    // Create timeout error message when needed
-    const timeoutError = new Error(`Error CacheTask timeout: key#`);
-    const task = this.cacher.fetchFn(this.input);
+    this.isFetched = true;
+    const timeoutMs = this.cacher.timeoutMs;
+    const execute = () =>
+      limitTimeout(
+        this.fetch(),
+        timeoutMs,
+        new TimeoutError(timeoutMs),
+        (error) => {
+          this.isTimedOut = true;
+          this.abortController.abort(error);
+          this.cacher.recordTimeout();
+          if (this.cacher.hasListeners('timeout')) {
+            this.cacher.emit('timeout', {
+              key: this.input,
+              timings: this.timings,
+              timeoutMs,
+            });
+          }
+        },
+      );
+    const instrumentation = this.cacher.instrumentation;
     this.promiseHolder.resolve(
-      limitTimeout(task, this.cacher.timeoutMs, timeoutError),
+      instrumentation ? instrumentation.traceFetch(this, execute) : execute(),
+    );
+    if (this.cacher.hasListeners('fetchStart')) {
+      this.cacher.emit('fetchStart', {
+        key: this.input,
+        timings: this.timings,
+      });
+    }
+  }
+
+  /**
+   * Aborts this task if it has not settled yet.
+   * A queued task is rejected without running. A running task has its signal aborted,
+   * and waiting callers get whatever the fetch function settles with in response.
+   *
+   * @param reason - The error to reject waiting callers with
+   */
+  public abort(reason: Error = new Error('Error CacheTask aborted')): void {
+    if (this.resolvedAt || this.isAborted) return;
+    this.isAborted = true;
+    if (!this.promiseHolder.isLiberated) {
+      this.promiseHolder.reject(reason);
+    }
+    this.abortController.abort(reason);
+  }
+
+  /**
+   * Detaches this task from its cache entry after it was replaced before settling.
+   * A running fetch still settles for the callers waiting on it, while a queued task
+   * settles with the replacing task's output. Either way nothing is kept or stored.
+   *
+   * @param task - The task replacing this one
+   */
+  public handOver(task: CacheTask<OUTPUT, INPUT>): void {
+    if (this.resolvedAt || this.isAborted) return;
+    this.noCache = true;
+    if (!this.promiseHolder.isLiberated) {
+      this.promiseHolder.resolve(task.settled());
+    }
+  }
+
+  /**
+   * Reads the value from the storage adapter when possible, otherwise calls the fetch function.
+   * A restored entry only lives for the TTL its record has left.
+   */
+  private fetch(): Promise<OUTPUT> {
+    if (this.bypassStorage || !this.cacher.storage) {
+      return this.fetchEntry();
+    }
+    return this.cacher.readStorage(this.input).then((record) => {
+      if (!record) {
+        return this.fetchEntry();
+      }
+      this.isRestored = true;
+      this.entryTtlMs = Math.min(
+        this.cacher.ttlMs,
+        record.expiresAt - Date.now(),
+      );
+      this.applyEntryOptions({ tags: record.tags });
+      return record.value;
+    });
+  }
+
+  /**
+   * Calls the fetch function, retrying failures according to the retry policy,
+   * and applies the per-entry options it may have returned.
+   * An Error wrapped in a CacheEntry rejects the task like a thrown error, without retries.
+   */
+  private fetchEntry(): Promise<OUTPUT> {
+    const { signal } = this.abortController;
+    if (signal.aborted) {
+      // Cancelled while reading storage, the fetch function is never called
+      return Promise.reject(abortReason(signal));
+    }
+    const attempt = (attemptNumber: number) => this.attempt(attemptNumber);
+    const retryOptions = this.cacher.retryOptions;
+    const fetched = retryOptions
+      ? retry(attempt, retryOptions, signal)
+      : attempt(1);
+    return fetched.then((output) => {
+      if (!(output instanceof CacheEntry)) {
+        return output;
+      }
+      this.applyEntryOptions(output.options);
+      if (typeof output.options.ttlMs === 'number') {
+        this.hasOwnTtl = true;
+      }
+      if (output.value instanceof Error) {
+        throw output.value;
+      }
+      return output.value;
+    });
+  }
+
+  /**
+   * Makes a single call to the fetch function, guarded by the circuit breaker.
+   * Cancelled calls are not held against the upstream, timed out calls are.
+   *
+   * @param attemptNumber - The attempt number, starting at 1
+   * @returns The fetched output, optionally wrapped in a CacheEntry
+   */
+  private attempt(attemptNumber: number): Promise<OUTPUT | CacheEntry<OUTPUT>> {
+    const breaker = this.cacher.circuitBreaker;
+    if (breaker && !breaker.tryAcquire()) {
+      return Promise.reject(new CircuitOpenError(breaker.retryAfterMs));
+    }
+    this.attempts = attemptNumber;
+    this.cacher.recordFetchAttempt(attemptNumber);
+    const { signal } = this.abortController;
+    const fetched = Promise.resolve(
+      this.cacher.fetchByKey(this.input, { signal }),
+    );
+    if (!breaker) {
+      return fetched;
+    }
+    return fetched.then(
+      (output) => {
+        breaker.success();
+        return output;
+      },
+      (error: Error) => {
+        if (signal.aborted && !this.isTimedOut) {
+          breaker.ignore();
+        } else {
+          breaker.failure();
+        }
+        throw error;
+      },
     );
   }
 
+  /**
+   * Applies per-entry options, keeping the cacher defaults for anything left unset.
+   *
+   * @param options - The per-entry options
+   */
+  private applyEntryOptions(options: CacheEntryOptions): void {
+    if (typeof options.ttlMs === 'number') {
+      this.entryTtlMs = Math.max(0, options.ttlMs);
+    }
+    if (typeof options.staleMs === 'number') {
+      this.entryStaleMs = Math.max(0, options.staleMs);
+    }
+    if (options.noCache === true) {
+      this.noCache = true;
+    }
+    if (options.tags) {
+      this.tags = Array.from(new Set(this.tags.concat(options.tags)));
+    }
+  }
+
   /**
    * Removes this cache task from the parent cacher.
    * This effectively deletes the cached entry.
    */
   private release(): void {
-    this.cacher.delete(this.input);
+    const currentTask = this.cacher.getTask(this.input);
+    if (currentTask && currentTask !== this) {
+      // Already replaced by a newer task
+      return;
+    }
+    if (this.isServingStaleTask) {
+      // A failed refresh keeps serving the last good value
+      this.cacher.revertRefresh(this);
+      return;
+    }
+    this.cacher.discard(this.input);
   }
 
   private done(): void {
@@ -118,19 +460,71 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
   private setPromiseHandle(): void {
     this.promiseHolder.promise
       .then((value) => {
+        this.resolvedAt = this.resolvedAt ?? Date.now();
         this.usedBytes = sizeof(value);
+        if (this.staleTask) {
+          // Carry the entry's usage over to the refreshed value
+          this.usedCount += this.staleTask.usedCount;
+          this.lastAccessedAt = Math.max(
+            this.lastAccessedAt,
+            this.staleTask.lastAccessedAt,
+          );
+        }
+        this.staleTask = undefined;
+        this.cacher.recordSettled(this);
+        if (this.noCache || this.isAborted) {
+          // Waiting callers already hold the output, nothing is kept
+          setTimeout(() => {
+            this.release();
+          }, 0);
+        } else if (!this.isRestored) {
+          this.cacher.writeStorage(
+            this.input,
+            value,
+            this.entryTtlMs ?? this.cacher.storageTtlMs,
+            this.tags,
+          );
+        }
+        if (this.isFetched) {
+          this.cacher.recordFetchTime(this);
+          if (this.cacher.hasListeners('fetchSuccess')) {
+            this.cacher.emit('fetchSuccess', {
+              key: this.input,
+              timings: this.timings,
+              value,
+            });
+          }
+        }
+        if (!this.noCache && !this.isAborted) {
+          // The value size is known now, keep the cacher within its limits
+          this.cacher.enforceLimits(this);
+        }
       })
       .catch((error) => {
+        this.resolvedAt = this.resolvedAt ?? Date.now();
         this.taskError = error;
-        if (this.cacher.errorTaskPolicy == ErrorTaskPolicyType.IGNORE) {
+        this.cacher.recordSettled(this);
+        if (!this.isErrorCached || this.noCache) {
           // Delay release to avoid immediate cleanup during error handling
           setTimeout(() => {
             this.release();
           }, 0);
         }
+        if (this.isFetched) {
+          this.cacher.recordFetchTime(this);
+          if (this.cacher.hasListeners('fetchError')) {
+            this.cacher.emit('fetchError', {
+              key: this.input,
+              timings: this.timings,
+              error,
+            });
+          }
+        }
+        if (this.isErrorCached && !this.noCache) {
+          this.cacher.enforceLimits(this);
+        }
       })
       .finally(() => {
-        this.resolvedAt = Date.now();
         this.done();
       });
   }
@@ -138,18 +532,62 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
   public get isExpired(): boolean {
     const now = Date.now();
     if (this.cacher.expirationStrategy === ExpirationStrategyType.IDLE) {
-      if (now - this.lastAccessedAt > this.cacher.ttlMs) {
+      if (now - this.lastAccessedAt > this.ttlMs) {
         return true;
       }
     }
     if (this.cacher.expirationStrategy === ExpirationStrategyType.EXPIRE) {
-      if (now - this.resolvedAt > this.cacher.ttlMs) {
+      if (now - this.resolvedAt > this.ttlMs) {
+        return true;
+      }
+    }
+    if (
+      this.cacher.expirationStrategy ===
+      ExpirationStrategyType.STALE_WHILE_REVALIDATE
+    ) {
+      // Errors are never served stale
+      const maxAgeMs = this.taskError
+        ? this.ttlMs
+        : this.ttlMs + this.maxStaleMs;
+      if (now - this.resolvedAt > maxAgeMs) {
         return true;
       }
     }
     return false;
   }
 
+  /**
+   * Timestamp after which this entry is no longer fresh.
+   * Idle entries are measured from their last access, all others from resolution.
+   *
+   * @returns The expiry timestamp, or undefined while the task is unresolved
+   */
+  public get expiresAt(): number | undefined {
+    if (!this.resolvedAt) {
+      return undefined;
+    }
+    if (this.cacher.expirationStrategy === ExpirationStrategyType.IDLE) {
+      return this.lastAccessedAt + this.ttlMs;
+    }
+    return this.resolvedAt + this.ttlMs;
+  }
+
+  /**
+   * Whether this task is past its TTL but still inside the max-staleness window.
+   * Only applies to the STALE_WHILE_REVALIDATE strategy.
+   */
+  public get isStale(): boolean {
+    if (
+      this.cacher.expirationStrategy !==
+        ExpirationStrategyType.STALE_WHILE_REVALIDATE ||
+      !this.resolvedAt ||
+      this.taskError
+    ) {
+      return false;
+    }
+    return Date.now() - this.resolvedAt > this.ttlMs;
+  }
+
   /**
    * Gets the current status of this cache task.
    * Determines if the task is deprecated, active, or still awaiting completion.
@@ -157,10 +595,7 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
    * @returns The current status of the cache task
    */
   public get status(): CacheTaskStatusType {
-    if (
-      this.taskError &&
-      this.cacher.errorTaskPolicy !== ErrorTaskPolicyType.CACHE
-    ) {
+    if (this.taskError && !this.isErrorCached) {
       return CacheTaskStatusType.FAILED;
     }
     if (this.isExpired) {
@@ -169,6 +604,9 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
     if (!this.fetchStartedAt) {
       return CacheTaskStatusType.QUEUED;
     }
+    if (this.isStale) {
+      return CacheTaskStatusType.STALE;
+    }
     if (this.resolvedAt) {
       return CacheTaskStatusType.ACTIVE;
     }
@@ -179,10 +617,11 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
    * Returns the cached output value or the promise that will resolve to it.
    * Updates access statistics and handles cloning if configured.
    *
+   * @param signal - Cancels waiting for an unsettled output
    * @returns A promise that resolves to the cached output value
    * @throws {Error} If the task encountered an error during execution
    */
-  public async output(): Promise<OUTPUT> {
+  public async output(signal?: AbortSignal): Promise<OUTPUT> {
     this.usedCount++;
     this.lastAccessedAt = Date.now();
     if (this.taskError) {
@@ -192,9 +631,50 @@ export class CacheTask<OUTPUT = any, INPUT = string> {
     if (this.cacher.useClones) {
       task = task.then((output) => cloneDeep(output));
     }
+    if (!this.resolvedAt) {
+      task = this.wait(task, signal);
+    }
     return task;
   }
 
+  /**
+   * Registers a caller waiting on the unsettled output.
+   * When every waiting caller has cancelled through its signal, the task is aborted.
+   * Callers without a signal can not cancel and keep the task alive.
+   *
+   * @param task - The output promise the caller waits on
+   * @param signal - The caller's signal
+   * @returns The output promise, rejected early if the caller cancels
+   */
+  private wait(task: Promise<OUTPUT>, signal?: AbortSignal): Promise<OUTPUT> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+    this.waiterCount++;
+    if (signal) {
+      const onAbort = () => {
+        this.waiterCount--;
+        if (this.waiterCount === 0) {
+          this.abort(abortReason(signal));
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      void this.promiseHolder.promise
+        .catch(() => undefined)
+        .then(() => signal.removeEventListener('abort', onAbort));
+    }
+    return abortable(task, signal);
+  }
+
+  /**
+   * Waits for the output to settle without counting as an access.
+   *
+   * @returns A promise resolving to the output, rejected with the task's error
+   */
+  public settled(): Promise<OUTPUT> {
+    return this.promiseHolder.promise;
+  }
+
   /**
    * Calculates the cache score for this task using the configured scoring method.
    * This score is used to determine which cache entries should be evicted when memory limits are exceeded.
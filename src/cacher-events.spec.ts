@@ -0,0 +1,204 @@
+import { CacheTask } from './cache-task';
+import {
+  CacherConfig,
+  CacherEvents,
+  EvictionReasonType,
+  ExpirationStrategyType,
+} from './define';
+import { PromiseCacher } from './promise-cacher';
+import { clearAfterEach } from './spec-helpers';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - events', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  const clearLater = clearAfterEach();
+  const createCacher = (config: CacherConfig) =>
+    clearLater(new PromiseCacher<string, string>(mockFetchFn, config));
+
+  /**
+   * Records every payload of the given events in emission order.
+   */
+  const record = (...events: (keyof CacherEvents)[]) => {
+    const emitted: { event: string; payload: any }[] = [];
+    events.forEach((event) =>
+      cacher.on(event, (payload) => emitted.push({ event, payload })),
+    );
+    return emitted;
+  };
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async (key: string) => {
+      await delay(10);
+      return `value-${key}`;
+    });
+    cacher = createCacher({ cachePolicy: { ttlMs: 1000 } });
+  });
+
+  afterEach(() => {
+    cacher = undefined;
+  });
+
+  it('should not build payloads for events without listeners', async () => {
+    const timings = jest.spyOn(CacheTask.prototype, 'timings', 'get');
+
+    await cacher.get('key');
+    await cacher.get('key');
+    cacher.set('other', 'value');
+    cacher.delete('other');
+
+    expect(timings).not.toHaveBeenCalled();
+    timings.mockRestore();
+  });
+
+  it('should emit miss and fetch events for a new entry', async () => {
+    const emitted = record('miss', 'hit', 'fetchStart', 'fetchSuccess');
+
+    await cacher.get('key');
+
+    expect(emitted.map((e) => e.event)).toEqual([
+      'fetchStart',
+      'miss',
+      'fetchSuccess',
+    ]);
+    const success = emitted[2].payload;
+    expect(success.key).toBe('key');
+    expect(success.value).toBe('value-key');
+    expect(success.timings.fetchStartedAt).toBeDefined();
+    expect(success.timings.resolvedAt).toBeGreaterThanOrEqual(
+      success.timings.fetchStartedAt,
+    );
+    expect(success.timings.responseTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should emit hit for cached and in-flight entries', async () => {
+    const emitted = record('hit', 'miss');
+
+    const first = cacher.get('key');
+    const joined = cacher.get('key');
+    await Promise.all([first, joined]);
+    await cacher.get('key');
+
+    expect(emitted.map((e) => e.event)).toEqual(['miss', 'hit', 'hit']);
+    expect(emitted[1].payload.stale).toBe(false);
+  });
+
+  it('should flag stale hits', async () => {
+    cacher = createCacher({
+      cachePolicy: {
+        ttlMs: 20,
+        expirationStrategy: ExpirationStrategyType.STALE_WHILE_REVALIDATE,
+      },
+    });
+    const emitted = record('hit');
+
+    await cacher.get('key');
+    await delay(30);
+    await cacher.get('key');
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].payload.stale).toBe(true);
+  });
+
+  it('should emit fetchError when the fetch rejects', async () => {
+    mockFetchFn.mockRejectedValueOnce(new Error('failure'));
+    const emitted = record('fetchError', 'fetchSuccess');
+
+    await expect(cacher.get('key')).rejects.toThrow('failure');
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].event).toBe('fetchError');
+    expect(emitted[0].payload.error.message).toBe('failure');
+  });
+
+  it('should emit timeout and fetchError when the fetch times out', async () => {
+    cacher = createCacher({
+      fetchingPolicy: { timeoutMs: 1 },
+    });
+    const emitted = record('timeout', 'fetchError');
+
+    await expect(cacher.get('key')).rejects.toThrow('timeout');
+
+    expect(emitted.map((e) => e.event)).toEqual(['timeout', 'fetchError']);
+    expect(emitted[0].payload.timeoutMs).toBe(1);
+  });
+
+  it('should emit set without fetch events for manual values', async () => {
+    const emitted = record('set', 'fetchStart', 'fetchSuccess');
+
+    cacher.set('key', 'manual');
+    await cacher.get('key');
+
+    expect(emitted.map((e) => e.event)).toEqual(['set']);
+    expect(emitted[0].payload.key).toBe('key');
+  });
+
+  it('should emit delete and a manual eviction on delete', async () => {
+    await cacher.get('key');
+    const emitted = record('delete', 'evict');
+
+    cacher.delete('key');
+    cacher.delete('missing');
+
+    expect(emitted.map((e) => e.event)).toEqual(['evict', 'delete']);
+    expect(emitted[0].payload.reason).toBe(EvictionReasonType.MANUAL);
+    expect(emitted[0].payload.usedBytes).toBeGreaterThan(0);
+  });
+
+  it('should emit manual evictions on clear', async () => {
+    await cacher.get('key1');
+    await cacher.get('key2');
+    const emitted = record('evict');
+
+    cacher.clear();
+
+    expect(emitted.map((e) => e.payload.key)).toEqual(['key1', 'key2']);
+  });
+
+  it('should emit expire and a TTL eviction for expired entries', async () => {
+    cacher = createCacher({ cachePolicy: { ttlMs: 20 } });
+    await cacher.get('key');
+    const emitted = record('expire', 'evict', 'miss');
+
+    await delay(30);
+    await cacher.get('key');
+
+    expect(emitted.map((e) => e.event)).toEqual(['expire', 'evict', 'miss']);
+    expect(emitted[1].payload.reason).toBe(EvictionReasonType.TTL);
+  });
+
+  it('should emit memory evictions when over the memory limit', async () => {
+    cacher = createCacher({
+      cachePolicy: { flushIntervalMs: 1000 },
+      freeUpMemoryPolicy: { maxMemoryBytes: 1 },
+    });
+    const emitted = record('evict');
+
+    await cacher.get('key');
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].payload.reason).toBe(EvictionReasonType.MEMORY);
+  });
+
+  it('should not emit eviction events for failed fetches', async () => {
+    mockFetchFn.mockRejectedValueOnce(new Error('failure'));
+    const emitted = record('evict', 'delete');
+
+    await expect(cacher.get('key')).rejects.toThrow('failure');
+    await delay(10);
+
+    expect(cacher.has('key')).toBe(false);
+    expect(emitted).toHaveLength(0);
+  });
+
+  it('should stop emitting to removed listeners', async () => {
+    const listener = jest.fn();
+    const off = cacher.on('miss', listener);
+
+    off();
+    await cacher.get('key');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,172 @@
+import { CacherConfig, CircuitStateType, ErrorTaskPolicyType } from './define';
+import { CircuitOpenError } from './errors';
+import { PromiseCacher } from './promise-cacher';
+import { clearAfterEach } from './spec-helpers';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - circuit breaker', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  const clearLater = clearAfterEach();
+  const createCacher = (config?: CacherConfig) =>
+    clearLater(new PromiseCacher<string, string>(mockFetchFn, config));
+
+  /**
+   * Fails the given number of fetches for distinct keys.
+   */
+  const failFetches = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await expect(cacher.get(`failing-${i}`)).rejects.toThrow('upstream');
+    }
+  };
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn().mockRejectedValue(new Error('upstream down'));
+    cacher = createCacher({
+      fetchingPolicy: {
+        circuitBreaker: { consecutiveFailures: 2, coolDownMs: 50 },
+      },
+    });
+  });
+
+  afterEach(() => {
+    cacher = undefined;
+  });
+
+  it('should fail fast without calling the fetch function once open', async () => {
+    await failFetches(2);
+
+    const error = await cacher.get('key').catch((e) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfterMs).toBeGreaterThan(0);
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never cache circuit breaker rejections', async () => {
+    cacher = createCacher({
+      cachePolicy: { errorTaskPolicy: ErrorTaskPolicyType.CACHE },
+      fetchingPolicy: {
+        circuitBreaker: { consecutiveFailures: 2, coolDownMs: 50 },
+      },
+    });
+    await failFetches(2);
+
+    await expect(cacher.get('key')).rejects.toBeInstanceOf(CircuitOpenError);
+    await delay(10);
+
+    expect(cacher.has('key')).toBe(false);
+  });
+
+  it('should close again after a successful probe', async () => {
+    await failFetches(2);
+    await delay(60);
+    mockFetchFn.mockResolvedValue('value');
+
+    expect(await cacher.get('key')).toBe('value');
+    expect(cacher.statistics().health.circuitBreaker.state).toBe(
+      CircuitStateType.CLOSED,
+    );
+  });
+
+  it('should open again after a failed probe', async () => {
+    await failFetches(2);
+    await delay(60);
+
+    await expect(cacher.get('probe')).rejects.toThrow('upstream');
+    await expect(cacher.get('key')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(mockFetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should serve expired values while open', async () => {
+    cacher = createCacher({
+      cachePolicy: { ttlMs: 20 },
+      fetchingPolicy: {
+        circuitBreaker: { consecutiveFailures: 2, coolDownMs: 1000 },
+      },
+    });
+    mockFetchFn.mockResolvedValueOnce('cached-value');
+    await cacher.get('key');
+    await failFetches(2);
+    await delay(30);
+
+    expect(await cacher.get('key')).toBe('cached-value');
+    expect(cacher.statistics().efficiency.staleHits).toBe(1);
+  });
+
+  it('should fail fast for expired values when serveStale is disabled', async () => {
+    cacher = createCacher({
+      cachePolicy: { ttlMs: 20 },
+      fetchingPolicy: {
+        circuitBreaker: {
+          consecutiveFailures: 2,
+          coolDownMs: 1000,
+          serveStale: false,
+        },
+      },
+    });
+    mockFetchFn.mockResolvedValueOnce('cached-value');
+    await cacher.get('key');
+    await failFetches(2);
+    await delay(30);
+
+    await expect(cacher.get('key')).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('should not count cancelled fetches as failures', async () => {
+    mockFetchFn.mockImplementation(
+      (key: string, { signal }) =>
+        new Promise((resolve, reject) => {
+          signal.addEventListener('abort', () =>
+            reject(signal.reason as Error),
+          );
+        }),
+    );
+
+    for (let i = 0; i < 3; i++) {
+      const promise = cacher.get(`key-${i}`);
+      cacher.delete(`key-${i}`);
+      await expect(promise).rejects.toThrow('deleted');
+    }
+
+    expect(cacher.circuitBreaker.state).toBe(CircuitStateType.CLOSED);
+  });
+
+  it('should not retry circuit breaker rejections', async () => {
+    cacher = createCacher({
+      fetchingPolicy: {
+        retry: { maxAttempts: 5, baseDelayMs: 1 },
+        circuitBreaker: { consecutiveFailures: 2, coolDownMs: 1000 },
+      },
+    });
+
+    await expect(cacher.get('key')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report the breaker in health statistics', async () => {
+    expect(cacher.statistics().health.circuitBreaker).toEqual({
+      state: CircuitStateType.CLOSED,
+      consecutiveFailures: 0,
+      errorRate: 0,
+      rejectedFetches: 0,
+      retryAfterMs: 0,
+    });
+
+    await failFetches(2);
+    await cacher.get('key').catch(() => undefined);
+
+    const { health } = cacher.statistics();
+    expect(health.circuitBreaker.state).toBe(CircuitStateType.OPEN);
+    expect(health.circuitBreaker.consecutiveFailures).toBe(2);
+    expect(health.circuitBreaker.rejectedFetches).toBe(1);
+    expect(health.issues).toContain('Circuit breaker open');
+  });
+
+  it('should leave health statistics without a breaker unchanged', () => {
+    cacher = createCacher();
+
+    expect(cacher.statistics().health.circuitBreaker).toBeUndefined();
+  });
+});
@@ -3,3 +3,26 @@ export const MinFlushIntervalMs = 1 * 1000; // 1 sec
 export const DefaultMaxMemoryBytes = 10 * 1024 * 1024; // 10 MB
 export const DefaultTtlMs = 5 * 60 * 1000; // 5 min
 export const DefaultConcurrency = 0;
+export const DefaultBatchWindowMs = 0;
+export const DefaultPriorityAgingMs = 1000; // 1 sec
+export const DefaultRateLimitIntervalMs = 1000; // 1 sec
+export const DefaultWarmUpConcurrency = 10;
+export const DefaultRetryMaxAttempts = 3;
+export const DefaultRetryBaseDelayMs = 100;
+export const DefaultRetryMaxDelayMs = 10 * 1000; // 10 sec
+export const DefaultCircuitConsecutiveFailures = 5;
+export const DefaultCircuitWindowSize = 20;
+export const DefaultCircuitMinimumCalls = 10;
+export const DefaultCircuitCoolDownMs = 30 * 1000; // 30 sec
+export const DefaultLatencyBucketsSeconds = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+export const LatencyRelativeAccuracy = 0.01; // 1%
+export const LatencyWindowSlotMs = 10 * 1000; // 10 sec
+export const LatencyWindowsMs = {
+  last1m: 1 * 60 * 1000,
+  last5m: 5 * 60 * 1000,
+  last15m: 15 * 60 * 1000,
+};
+export const DefaultTopKeysLimit = 10;
+export const TopKeysTrackedCount = 1000;
@@ -1,5 +1,3 @@
-import { CacheTask } from './cache-task';
-import { CacheTaskStatusType } from './define';
 import { PromiseCacher } from './promise-cacher';
 import { delay } from './util/delay';
 
@@ -217,34 +215,26 @@ describe('PromiseCacher - consume() method', () => {
 
       await Promise.all(promises);
 
-      expect(mockFetchFn).toHaveBeenCalledWith('key1');
-      expect(mockFetchFn).toHaveBeenCalledWith('key3');
-      expect(mockFetchFn).toHaveBeenCalledWith('key4');
+      expect(mockFetchFn).toHaveBeenCalledWith('key1', {
+        signal: expect.any(AbortSignal),
+      });
+      expect(mockFetchFn).toHaveBeenCalledWith('key3', {
+        signal: expect.any(AbortSignal),
+      });
+      expect(mockFetchFn).toHaveBeenCalledWith('key4', {
+        signal: expect.any(AbortSignal),
+      });
     });
   });
 
   describe('task ordering and priority', () => {
-    it('should maintain task order property', async () => {
+    it('should start equal-priority tasks in the order they were queued', async () => {
       cacher = new PromiseCacher(mockFetchFn, {
         fetchingPolicy: { concurrency: 1 },
       });
-
-      const tasks: CacheTask<string, string>[] = [];
-
-      // Access private taskMap to inspect task order
-      const taskMapGetter = Object.getOwnPropertyDescriptor(
-        Object.getPrototypeOf(cacher),
-        'tasks',
-      )?.get;
-
+      const started: string[] = [];
       mockFetchFn.mockImplementation(async (key: string) => {
-        const currentTasks = taskMapGetter?.call(cacher) || [];
-        tasks.push(
-          ...currentTasks.filter(
-            (t: CacheTask<string, string>) =>
-              t.status === CacheTaskStatusType.QUEUED,
-          ),
-        );
+        started.push(key);
         await delay(10);
         return `result-${key}`;
       });
@@ -255,12 +245,78 @@ describe('PromiseCacher - consume() method', () => {
         cacher.get('third'),
       ]);
 
-      // Check if tasks were ordered correctly (if any were captured)
-      if (tasks.length > 0) {
-        for (let i = 1; i < tasks.length; i++) {
-          expect(tasks[i].order).toBeGreaterThanOrEqual(tasks[i - 1].order);
-        }
-      }
+      expect(started).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should start higher-priority tasks first', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1 },
+      });
+      const started: string[] = [];
+      mockFetchFn.mockImplementation(async (key: string) => {
+        started.push(key);
+        await delay(10);
+        return `result-${key}`;
+      });
+
+      await Promise.all([
+        cacher.get('running'),
+        cacher.get('prefetch', { priority: -1 }),
+        cacher.set('background'),
+        cacher.get('interactive', { priority: 10 }),
+      ]);
+      await delay(50);
+
+      expect(started).toEqual([
+        'running',
+        'interactive',
+        'background',
+        'prefetch',
+      ]);
+    });
+
+    it('should raise a queued task to the priority of a later request', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1 },
+      });
+      const started: string[] = [];
+      mockFetchFn.mockImplementation(async (key: string) => {
+        started.push(key);
+        await delay(10);
+        return `result-${key}`;
+      });
+
+      const requests = [
+        cacher.get('running'),
+        cacher.get('other'),
+        cacher.get('prefetch', { priority: -1 }),
+      ];
+      requests.push(cacher.get('prefetch', { priority: 5 }));
+      await Promise.all(requests);
+
+      expect(started).toEqual(['running', 'prefetch', 'other']);
+    });
+
+    it('should age low-priority tasks so they can not starve', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1, priorityAgingMs: 10 },
+      });
+      const started: string[] = [];
+      mockFetchFn.mockImplementation(async (key: string) => {
+        started.push(key);
+        await delay(30);
+        return `result-${key}`;
+      });
+
+      const requests = [
+        cacher.get('running'),
+        cacher.get('background', { priority: -1 }),
+      ];
+      await delay(20);
+      requests.push(cacher.get('interactive'));
+      await Promise.all(requests);
+
+      expect(started).toEqual(['running', 'background', 'interactive']);
     });
 
     it('should handle rapid task creation and consumption', async () => {
@@ -330,9 +386,14 @@ describe('PromiseCacher - consume() method', () => {
 
       await Promise.all([cacher.get('initial-key'), cacher.get('dynamic-key')]);
 
-      expect(mockFetchFn).toHaveBeenCalledWith('initial-key');
+      expect(mockFetchFn).toHaveBeenCalledWith('initial-key', {
+        signal: expect.any(AbortSignal),
+      });
       // dynamic-key was set manually, so shouldn't call fetch
-      expect(mockFetchFn).not.toHaveBeenCalledWith('dynamic-key');
+      expect(mockFetchFn).not.toHaveBeenCalledWith(
+        'dynamic-key',
+        expect.anything(),
+      );
     });
 
     it('should handle consume with negative concurrency', async () => {
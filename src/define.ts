@@ -1,16 +1,52 @@
+import { CacheEntry } from './cache-entry';
 import { CacheTask } from './cache-task';
 import { PromiseCacher } from './promise-cacher';
+import { WindowedLatencyHistogram } from './util/latency-histogram';
+import { SpaceSaving } from './util/space-saving';
+
+/**
+ * Context passed to the fetch function alongside the input
+ */
+export interface FetchContext {
+  /**
+   * Aborted when the fetch times out, when its entry is deleted or cleared,
+   * or when every caller waiting on it has cancelled
+   * Pass it on to the HTTP client or database driver to stop the underlying work
+   */
+  signal: AbortSignal;
+}
 
 /**
  * Method signature for fetching data by key input
  * @template OUTPUT - The type of data returned by the fetch operation
  * @template INPUT - The type of input parameter used for fetching
  * @param input - The input parameter for the fetch operation
- * @returns A promise that resolves to the fetched data
+ * @param context - The fetch context carrying the abort signal
+ * @returns A promise that resolves to the fetched data, optionally wrapped
+ * in a CacheEntry carrying per-entry options
  */
 export type FetchByKeyMethod<OUTPUT = any, INPUT = string> = (
   input: INPUT,
-) => Promise<OUTPUT>;
+  context: FetchContext,
+) => Promise<OUTPUT | CacheEntry<OUTPUT>>;
+
+/**
+ * Method signature for fetching many inputs with a single call
+ * @template OUTPUT - The type of data returned by the fetch operation
+ * @template INPUT - The type of input parameter used for fetching
+ * @param inputs - The inputs collected in this batch
+ * @param context - The fetch context, aborted once every input in the batch is cancelled
+ * @returns A promise resolving to either a Map from input to output, or an array of
+ * outputs in the order of the inputs. An Error in place of an output rejects that input only,
+ * and inputs missing from the result are rejected
+ */
+export type BatchFetchByKeysMethod<OUTPUT = any, INPUT = any> = (
+  inputs: INPUT[],
+  context: FetchContext,
+) => Promise<
+  | Map<INPUT, OUTPUT | CacheEntry<OUTPUT> | Error>
+  | (OUTPUT | CacheEntry<OUTPUT> | Error)[]
+>;
 
 /**
  * Method signature for calculating cache value score
@@ -32,6 +68,11 @@ export enum ExpirationStrategyType {
   EXPIRE = 'EXPIRE',
   /** Cache expires after being idle for a specific duration */
   IDLE = 'IDLE',
+  /**
+   * Cache goes stale after a fixed time period (time to live) but keeps being served
+   * while a background refresh runs, until the max-staleness window has also passed
+   */
+  STALE_WHILE_REVALIDATE = 'STALE_WHILE_REVALIDATE',
 }
 
 /**
@@ -57,9 +98,498 @@ export enum CacheTaskStatusType {
   ACTIVE = 'ACTIVE',
   /** Task has failed and should be cleaned up */
   FAILED = 'FAILED',
+  /** Task is past its TTL but may still be served while it is revalidated */
+  STALE = 'STALE',
   EXPIRED = 'EXPIRED',
 }
 
+/**
+ * Options for PromiseCacher.get()
+ */
+export interface GetOptions {
+  /**
+   * Bypass the cache and fetch fresh data
+   * @default false
+   */
+  forceUpdate?: boolean;
+  /**
+   * Cancels waiting for this request; the fetch itself is aborted
+   * once every caller waiting on it has cancelled
+   */
+  signal?: AbortSignal;
+  /**
+   * Scheduling priority of the fetch while waiting for a concurrency slot, higher runs first
+   * A queued fetch is raised to the highest priority requesting it
+   * @default 0
+   */
+  priority?: number;
+}
+
+/**
+ * Options for PromiseCacher.keepWarm()
+ */
+export interface KeepWarmOptions {
+  /**
+   * Exempt the kept warm entries from eviction by the entry and memory limits
+   * @default false
+   */
+  pinned?: boolean;
+  /**
+   * Scheduling priority of the refresh fetches
+   * @default 0
+   */
+  priority?: number;
+}
+
+/**
+ * Progress of a warm-up, reported after every key
+ */
+export interface WarmUpProgress<INPUT = any> {
+  /** The key that was just loaded or failed */
+  key: INPUT;
+  /** Why the key failed, undefined when it was loaded */
+  error?: Error;
+  /** Keys loaded so far */
+  loaded: number;
+  /** Keys failed so far */
+  failed: number;
+}
+
+/**
+ * Options for PromiseCacher.warmUp()
+ */
+export interface WarmUpOptions<INPUT = any> {
+  /**
+   * Keys loaded at the same time
+   * @default fetchingPolicy.concurrency, or 10 when unlimited
+   */
+  concurrency?: number;
+  /**
+   * Stop at the first failure and reject with a WarmUpError
+   * @default false (load every key and report the failures)
+   */
+  failFast?: boolean;
+  /**
+   * Scheduling priority of the warm-up fetches
+   * @default 0
+   */
+  priority?: number;
+  /** Called after every key */
+  onProgress?: (progress: WarmUpProgress<INPUT>) => void;
+}
+
+/**
+ * Summary of a finished warm-up
+ */
+export interface WarmUpReport<INPUT = any> {
+  /** Keys loaded into the cache, held values included */
+  loaded: number;
+  /** Keys that failed to load, with their errors */
+  failures: { key: INPUT; error: Error }[];
+  /** Time the warm-up took in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Per-entry cache options
+ * Returned by the fetch function through a CacheEntry, or passed to PromiseCacher.set()
+ */
+export interface CacheEntryOptions {
+  /**
+   * Time to live of this entry in milliseconds, overriding cachePolicy.ttlMs
+   * An error entry with an explicit ttlMs is cached for that long
+   * regardless of the error task policy
+   */
+  ttlMs?: number;
+  /**
+   * Max-staleness window of this entry in milliseconds, overriding cachePolicy.maxStaleMs
+   * Only used by the STALE_WHILE_REVALIDATE expiration strategy
+   */
+  staleMs?: number;
+  /**
+   * Hand the value to waiting callers without keeping it in the cache
+   * @default false
+   */
+  noCache?: boolean;
+  /**
+   * Tags for invalidating related entries together through invalidateTag()
+   */
+  tags?: string[];
+}
+
+/**
+ * Options for PromiseCacher.set()
+ */
+export interface SetOptions extends CacheEntryOptions {
+  /**
+   * Scheduling priority of the fetch when no value is given, higher runs first
+   * @default 0
+   */
+  priority?: number;
+}
+
+/**
+ * Options used when creating a cache task
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export interface CacheTaskOptions<OUTPUT = any, INPUT = any>
+  extends SetOptions {
+  /** The stale task being revalidated, served until the new task resolves */
+  staleTask?: CacheTask<OUTPUT, INPUT>;
+  /** Skip the storage adapter and always call the fetch function */
+  bypassStorage?: boolean;
+  /** Transformed cache key the task is held under */
+  taskKey?: string;
+  /** Snapshot entry the task is imported from, keeping its original timing and usage */
+  snapshotEntry?: CacheSnapshotEntry<OUTPUT, INPUT>;
+}
+
+/**
+ * A settled cache value as persisted by a storage adapter
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export interface CacheStorageRecord<OUTPUT = any, INPUT = any> {
+  /** The input key the value was fetched for */
+  input: INPUT;
+  /** The resolved value */
+  value: OUTPUT;
+  /** Timestamp when the value was resolved */
+  resolvedAt: number;
+  /** Timestamp after which the value must no longer be served */
+  expiresAt: number;
+  /** Tags the entry can be invalidated by, absent for untagged entries */
+  tags?: string[];
+}
+
+/**
+ * A cache entry as captured by PromiseCacher.exportSnapshot()
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export interface CacheSnapshotEntry<OUTPUT = any, INPUT = any> {
+  /** The input key the value was fetched for */
+  input: INPUT;
+  /** Transformed cache key the entry was held under */
+  key: string;
+  /** The resolved value */
+  value: OUTPUT;
+  /** Timestamp when the entry was created */
+  createdAt: number;
+  /** Timestamp when the value was resolved */
+  resolvedAt: number;
+  /** Timestamp when the entry was last accessed */
+  lastAccessedAt: number;
+  /** Number of times the entry was used */
+  usedCount: number;
+  /** Time to live of the entry in milliseconds */
+  ttlMs: number;
+  /** Time to live the entry had left when the snapshot was taken, in milliseconds */
+  remainingTtlMs: number;
+  /** Tags the entry can be invalidated by */
+  tags: string[];
+}
+
+/**
+ * Serializable cache contents, as returned by PromiseCacher.exportSnapshot()
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export interface CacheSnapshot<OUTPUT = any, INPUT = any> {
+  /** Timestamp when the snapshot was taken */
+  exportedAt: number;
+  /** The fresh entries held at that time */
+  entries: CacheSnapshotEntry<OUTPUT, INPUT>[];
+}
+
+/**
+ * Backing store for settled cache values
+ * Keys are the transformed cache keys. In-flight requests are never stored,
+ * so request deduplication always happens in memory.
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export interface CacheStorageAdapter<OUTPUT = any, INPUT = any> {
+  /** Reads a record, resolving to undefined when nothing is stored */
+  get(key: string): Promise<CacheStorageRecord<OUTPUT, INPUT> | undefined>;
+  /** Writes or replaces a record */
+  set(key: string, record: CacheStorageRecord<OUTPUT, INPUT>): Promise<void>;
+  /** Removes a record, ignoring missing keys */
+  delete(key: string): Promise<void>;
+  /** Removes every record owned by this adapter */
+  clear(): Promise<void>;
+  /**
+   * Removes every record matching a filter, which lets invalidation reach entries
+   * no longer held in memory. Without it only the records of entries in memory are removed.
+   */
+  deleteWhere?(
+    filter: (record: CacheStorageRecord<OUTPUT, INPUT>, key: string) => boolean,
+  ): Promise<void>;
+}
+
+/**
+ * Built-in eviction policies
+ * Decide which entry is evicted first when a memory or entry-count limit is exceeded
+ */
+export enum EvictionPolicyType {
+  /** Evicts the lowest calcCacheScoreFn score first */
+  SCORE = 'SCORE',
+  /** Evicts the least recently used entry first */
+  LRU = 'LRU',
+  /** Evicts the least frequently used entry first */
+  LFU = 'LFU',
+  /** Window TinyLFU: a small LRU window in front of a frequency-admitted segmented LRU */
+  TINY_LFU = 'TINY_LFU',
+  /** Adaptive Replacement Cache, balancing recency and frequency */
+  ARC = 'ARC',
+}
+
+/**
+ * Pluggable eviction strategy
+ * Tracks entries by their transformed cache key and picks eviction victims.
+ * An instance tracks the entries of a single cacher.
+ */
+export interface EvictionPolicy {
+  /** Starts tracking an entry, or records an access if it is already tracked */
+  onInsert(key: string): void;
+  /** Records an access to a tracked entry */
+  onAccess(key: string): void;
+  /**
+   * Stops tracking an entry
+   * @param reason - Why the entry was evicted, undefined when it is replaced or discarded
+   */
+  onRemove(key: string, reason?: EvictionReasonType): void;
+  /**
+   * Picks the entry to evict next
+   * @param canEvict - Returns false for entries that must be kept, such as in-flight fetches
+   * @returns The key of the victim, or undefined if no tracked entry can be evicted
+   */
+  selectVictim(canEvict: (key: string) => boolean): string | undefined;
+  /** Stops tracking every entry */
+  clear(): void;
+}
+
+/**
+ * Reasons a cache entry is evicted from memory
+ */
+export enum EvictionReasonType {
+  /** Evicted to bring memory usage back under the configured limit */
+  MEMORY = 'MEMORY',
+  /** Evicted to keep the entry count within maxEntries */
+  CAPACITY = 'CAPACITY',
+  /** Evicted because it expired */
+  TTL = 'TTL',
+  /** Removed by delete() or clear() */
+  MANUAL = 'MANUAL',
+}
+
+/**
+ * Lifecycle timestamps and durations of a cache task, all in milliseconds
+ */
+export interface CacheTaskTimings {
+  /** Timestamp when the task was created */
+  createdAt: number;
+  /** Timestamp when the fetch started, undefined while queued */
+  fetchStartedAt?: number;
+  /** Timestamp when the task settled, undefined while pending */
+  resolvedAt?: number;
+  /** Timestamp when the entry was last accessed */
+  lastAccessedAt: number;
+  /** Time spent queued before the fetch started */
+  queuedTime?: number;
+  /** Time from fetch start to settlement */
+  responseTime?: number;
+}
+
+/**
+ * Payload shared by every cache event
+ * @template INPUT - The type of the cache key input
+ */
+export interface CacheEventPayload<INPUT = any> {
+  /** The input key of the entry */
+  key: INPUT;
+  /** Timings of the entry's cache task */
+  timings: CacheTaskTimings;
+}
+
+/**
+ * Events emitted by PromiseCacher, mapped to their payloads
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export interface CacherEvents<OUTPUT = any, INPUT = any> {
+  /** A request was served by an existing entry, settled or in flight */
+  hit: CacheEventPayload<INPUT> & {
+    /** Whether a stale value was served while it is revalidated */
+    stale: boolean;
+  };
+  /** A request found no usable entry and created a new one */
+  miss: CacheEventPayload<INPUT>;
+  /** A fetch left the queue and started */
+  fetchStart: CacheEventPayload<INPUT>;
+  /** A fetch resolved */
+  fetchSuccess: CacheEventPayload<INPUT> & { value: OUTPUT };
+  /** A fetch rejected, timeouts included */
+  fetchError: CacheEventPayload<INPUT> & { error: Error };
+  /** A fetch exceeded fetchingPolicy.timeoutMs */
+  timeout: CacheEventPayload<INPUT> & { timeoutMs: number };
+  /** An entry was found past its expiry */
+  expire: CacheEventPayload<INPUT>;
+  /** An entry was removed from memory */
+  evict: CacheEventPayload<INPUT> & {
+    reason: EvictionReasonType;
+    /** Memory released by the eviction */
+    usedBytes: number;
+  };
+  /** A value was set manually through set() */
+  set: CacheEventPayload<INPUT>;
+  /** An entry was deleted through delete() */
+  delete: CacheEventPayload<INPUT>;
+}
+
+/**
+ * How a request was served, as reported to FetchInstrumentation
+ */
+export enum RequestResultType {
+  /** Served by a settled entry */
+  HIT = 'HIT',
+  /** Served a stale value while the entry is revalidated */
+  STALE_HIT = 'STALE_HIT',
+  /** Joined a fetch that was already queued or running */
+  COALESCED = 'COALESCED',
+  /** Created a new entry and fetch */
+  MISS = 'MISS',
+}
+
+/**
+ * Hooks for tracing fetches and the requests they serve
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export interface FetchInstrumentation<OUTPUT = any, INPUT = any> {
+  /**
+   * Runs a fetch once it leaves the queue. The storage read, the fetch function
+   * with its retries and the timeout all happen inside run, which must be called
+   * exactly once and synchronously, and whose settlement must be passed on.
+   *
+   * @param task - The task being fetched
+   * @param run - Starts the fetch
+   * @returns The promise returned by run, or one settling the same way
+   */
+  traceFetch(
+    task: CacheTask<OUTPUT, INPUT>,
+    run: () => Promise<OUTPUT>,
+  ): Promise<OUTPUT>;
+  /**
+   * Called for every request served by get(), in the execution context of the caller.
+   *
+   * @param task - The task serving the request
+   * @param result - How the request was served
+   */
+  onRequest?(task: CacheTask<OUTPUT, INPUT>, result: RequestResultType): void;
+}
+
+/**
+ * Retry policy for failed fetches
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, the first one included
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled on every further retry
+   * @default 100
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound of the delay between attempts in milliseconds
+   * @default 10000 (10 seconds)
+   */
+  maxDelayMs?: number;
+  /**
+   * Randomize each delay between 0 and its exponential value
+   * so that many failing callers do not retry in lockstep
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * Decides whether an error is retried
+   * @default every error is retried
+   */
+  retryable?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * Rate limit for starting fetches
+ */
+export interface RateLimitPolicy {
+  /**
+   * Fetches allowed per interval
+   */
+  requests: number;
+  /**
+   * Interval length in milliseconds
+   * @default 1000 (1 second)
+   */
+  intervalMs?: number;
+  /**
+   * Fetches allowed back to back after an idle period
+   * @default requests
+   */
+  burst?: number;
+}
+
+/**
+ * Circuit breaker states
+ */
+export enum CircuitStateType {
+  /** Fetches go through and their outcomes are tracked */
+  CLOSED = 'CLOSED',
+  /** Fetches fail fast until the cool-down has passed */
+  OPEN = 'OPEN',
+  /** A single probe fetch decides whether the breaker closes or opens again */
+  HALF_OPEN = 'HALF_OPEN',
+}
+
+/**
+ * Circuit breaker policy around the fetch function
+ */
+export interface CircuitBreakerPolicy {
+  /**
+   * Consecutive fetch failures that open the breaker, 0 to disable
+   * @default 5
+   */
+  consecutiveFailures?: number;
+  /**
+   * Error rate percentage (0-100) over the recent fetches that opens the breaker
+   * @default undefined (disabled)
+   */
+  errorRateThreshold?: number;
+  /**
+   * Number of most recent fetches the error rate is measured over
+   * @default 20
+   */
+  windowSize?: number;
+  /**
+   * Fetches the window must hold before the error rate is considered
+   * @default 10
+   */
+  minimumCalls?: number;
+  /**
+   * How long the breaker stays open before a probe fetch is let through, in milliseconds
+   * @default 30000 (30 seconds)
+   */
+  coolDownMs?: number;
+  /**
+   * Serve expired values instead of failing fast while the breaker is open
+   * @default true
+   */
+  serveStale?: boolean;
+}
+
 /**
  * Configuration interface for PromiseCacher
  * Defines all available options for cache behavior customization
@@ -76,6 +606,7 @@ export interface CacherConfig {
      * @default ExpirationStrategyType.EXPIRE
      * - EXPIRE: time to live
      * - IDLE: idle timeout
+     * - STALE_WHILE_REVALIDATE: time to live, then serve stale data while refreshing
      */
     expirationStrategy?: ExpirationStrategyType;
     /**
@@ -84,6 +615,22 @@ export interface CacherConfig {
      */
     ttlMs?: number;
 
+    /**
+     * Max-staleness window in milliseconds (STALE_WHILE_REVALIDATE only)
+     * How long after ttlMs a stale value may still be served while it is refreshed;
+     * once this window has passed, callers wait for a fresh fetch
+     * @default ttlMs
+     */
+    maxStaleMs?: number;
+
+    /**
+     * Share of ttlMs (0-1) after which a hit refreshes the entry in the background
+     * The current value keeps being served and is only replaced once the refresh succeeds;
+     * not used by the IDLE expiration strategy
+     * @default undefined (disabled)
+     */
+    refreshAheadRatio?: number;
+
     /**
      * Error task handling policy
      * @default ErrorTaskPolicyType.RELEASE
@@ -122,6 +669,80 @@ export interface CacherConfig {
      * Limits the number of simultaneous async operations
      */
     concurrency?: number;
+
+    /**
+     * Aging of queued fetches in milliseconds
+     * @default 1000
+     * A fetch waiting for a concurrency slot gains one priority level per priorityAgingMs,
+     * so low-priority fetches can not starve. 0 disables aging
+     */
+    priorityAgingMs?: number;
+
+    /**
+     * Maximum number of fetches waiting for a concurrency slot
+     * @default undefined (unlimited)
+     * Misses that would have to wait in a full queue are rejected with a QueueFullError
+     */
+    maxQueueLength?: number;
+
+    /**
+     * Maximum time in milliseconds a fetch waits for a concurrency slot
+     * @default undefined (unlimited)
+     * Fetches still queued after this long are rejected with a QueueTimeoutError
+     */
+    maxQueueWaitMs?: number;
+
+    /**
+     * Batch fetch method
+     * @default undefined (disabled)
+     * If set, misses collected within batchWindowMs are fetched with one call
+     * instead of calling the fetch function once per input
+     */
+    batchFetchFn?: BatchFetchByKeysMethod;
+
+    /**
+     * Batch collection window in milliseconds
+     * @default 0 (collect until the next tick)
+     */
+    batchWindowMs?: number;
+
+    /**
+     * Maximum number of inputs per batch
+     * @default undefined (unlimited)
+     * A full batch is fetched right away without waiting for the window to end
+     */
+    maxBatchSize?: number;
+
+    /**
+     * Retry policy for failed fetches
+     * @default undefined (no retries)
+     * Retries hold their concurrency slot and count against timeoutMs;
+     * errors returned through a CacheEntry and aborted fetches are never retried
+     */
+    retry?: RetryPolicy;
+
+    /**
+     * Circuit breaker around the fetch function
+     * @default undefined (disabled)
+     * While open, misses reject with a CircuitOpenError without calling the fetch function,
+     * or get the expired value if one is still held
+     */
+    circuitBreaker?: CircuitBreakerPolicy;
+
+    /**
+     * Rate limit for starting fetches
+     * @default undefined (unlimited)
+     * Misses wait in the fetch queue until a request is allowed, in priority order;
+     * a batched fetch counts once per input and retries are not limited
+     */
+    rateLimit?: RateLimitPolicy;
+
+    /**
+     * Instrumentation tracing fetches and requests
+     * @default undefined (disabled)
+     * See instrumentation/opentelemetry for an OpenTelemetry implementation
+     */
+    instrumentation?: FetchInstrumentation;
   };
 
   /**
@@ -129,12 +750,26 @@ export interface CacherConfig {
    * Helps prevent memory leaks by managing cache size
    */
   freeUpMemoryPolicy?: {
+    /**
+     * Eviction policy deciding which entries go first
+     * A built-in policy type, or a custom EvictionPolicy instance owned by this cacher
+     * @default EvictionPolicyType.SCORE
+     */
+    evictionPolicy?: EvictionPolicyType | EvictionPolicy;
+
     /**
      * Cache value calculation formula
-     * Custom function to calculate cache importance score
+     * Custom function to calculate cache importance score, used by EvictionPolicyType.SCORE
      */
     calcCacheScoreFn?: CalcCacheScoreFn;
 
+    /**
+     * Maximum number of cached entries
+     * Exceeding it evicts settled entries right away, in-flight fetches are never evicted
+     * @default undefined (unlimited)
+     */
+    maxEntries?: number;
+
     /**
      * Minimum memory threshold in bytes
      * When memory usage exceeds maxMemoryByte, caches will be deleted
@@ -150,6 +785,71 @@ export interface CacherConfig {
      */
     maxMemoryBytes?: number;
   };
+
+  /**
+   * Persistent storage policy configuration
+   * Lets settled values outlive the process and be shared between processes
+   */
+  storagePolicy?: {
+    /**
+     * Storage adapter for settled values
+     * Memory misses are looked up here before calling the fetch function,
+     * and successfully fetched values are written back
+     * @default undefined (memory only)
+     */
+    adapter?: CacheStorageAdapter;
+
+    /**
+     * How long written values may be served from storage in milliseconds
+     * Entries with their own ttlMs are stored for that long instead
+     * @default cachePolicy.ttlMs
+     */
+    ttlMs?: number;
+  };
+}
+
+/**
+ * Configuration interface for TieredPromiseCacher
+ * Each tier keeps its own memory limits and expiration settings
+ */
+export interface TieredCacherConfig {
+  /**
+   * Configuration of the first tier, consulted first on every request
+   * Its storagePolicy is replaced by the second tier, and a second tier cacher stores values for its own TTL
+   * @default {}
+   */
+  l1?: CacherConfig;
+
+  /**
+   * The second tier, consulted on first tier misses before calling the fetch function
+   * - CacherConfig: a second PromiseCacher with its own configuration
+   * - CacheStorageAdapter: a storage adapter, e.g. a shared Redis store
+   */
+  l2: CacherConfig | CacheStorageAdapter;
+}
+
+/**
+ * TieredPromiseCacher runtime statistics
+ * Breaks hits down per tier next to each tier's own statistics
+ */
+export interface TieredCacherStatistics {
+  /** Cache effectiveness across both tiers */
+  efficiency: {
+    /** Combined hit rate of both tiers as a percentage (0-100) */
+    hitRate: number;
+    /** Requests served by the first tier */
+    l1Hits: number;
+    /** Requests that missed the first tier and were served by the second tier */
+    l2Hits: number;
+    /** Requests that missed both tiers */
+    misses: number;
+    /** Total requests processed */
+    totalRequests: number;
+  };
+  /** Statistics of the first tier */
+  l1: PromiseCacherStatistics;
+  /** Statistics of the second tier, when it is a PromiseCacher */
+  l2?: PromiseCacherStatistics;
 }
 
 /**
@@ -165,6 +865,74 @@ export type CacheKeyTransformFunction<INPUT = any> = (input: INPUT) => string;
  * Provides comprehensive metrics about cache performance and usage
  * Reorganized to focus on metrics that users truly care about
  */
+/**
+ * Measure keys are ranked by in topKeys()
+ * - hits: requests served from cache
+ * - misses: requests that required a fetch
+ * - fetchTime: milliseconds spent fetching
+ * - bytes: memory used by the value held now
+ */
+export type TopKeysMeasure = 'hits' | 'misses' | 'fetchTime' | 'bytes';
+
+/**
+ * Options for topKeys()
+ */
+export interface TopKeysOptions {
+  /** Measure to rank keys by */
+  by: TopKeysMeasure;
+  /**
+   * Most keys to return
+   * @default 10
+   */
+  limit?: number;
+}
+
+/**
+ * A key reported by topKeys()
+ * @template INPUT - The type of the cache key input
+ */
+export interface TopKey<INPUT = any> {
+  /** The input key */
+  key: INPUT;
+  /** Measured value, possibly overestimated by up to error */
+  value: number;
+  /** Largest possible overestimation of value, 0 when exact */
+  error: number;
+}
+
+/**
+ * Latency percentiles of a group of requests, in milliseconds, estimated within 1%
+ */
+export interface LatencyPercentiles {
+  /** Number of requests measured */
+  count: number;
+  /** Mean latency */
+  mean: number;
+  /** Median latency */
+  p50: number;
+  /** 90th percentile latency */
+  p90: number;
+  /** 99th percentile latency */
+  p99: number;
+  /** 99.9th percentile latency */
+  p999: number;
+}
+
+/**
+ * Latency percentiles since creation or the last clear(), plus recent time windows
+ */
+export interface LatencyStatistics extends LatencyPercentiles {
+  /** Percentiles of recent requests, windows are precise to 10 seconds */
+  windows: {
+    /** Requests in the last minute */
+    last1m: LatencyPercentiles;
+    /** Requests in the last 5 minutes */
+    last5m: LatencyPercentiles;
+    /** Requests in the last 15 minutes */
+    last15m: LatencyPercentiles;
+  };
+}
+
 export interface PromiseCacherStatistics {
   // ========== 🎯 CORE CACHE EFFICIENCY ==========
   /** Cache effectiveness metrics - the most important indicators */
@@ -173,8 +941,12 @@ export interface PromiseCacherStatistics {
     hitRate: number;
     /** Number of cache hits (requests served from cache) */
     hits: number;
+    /** Number of cache hits served with stale data while revalidating (included in hits) */
+    staleHits: number;
     /** Number of cache misses (requests that required fresh fetches) */
     misses: number;
+    /** Number of misses served from the storage adapter without calling fetchFn (included in misses) */
+    storageHits: number;
     /** Total requests processed */
     totalRequests: number;
     /** Estimated time saved by caching (based on avg response times) */
@@ -196,21 +968,29 @@ export interface PromiseCacherStatistics {
     fastestResponse: number;
     /** Slowest response time recorded (ms) */
     slowestResponse: number;
+    /** Response times of requests served from cache */
+    hitLatency: LatencyStatistics;
+    /** Response times of requests that waited for a fetch, failures included */
+    missLatency: LatencyStatistics;
   };
 
   // ========== 🔄 CURRENT OPERATIONS ==========
   /** Real-time operational status */
   operations: {
-    /** Current number of requests being processed */
+    /** Fetches currently running */
     activeRequests: number;
     /** Requests waiting in queue */
     queuedRequests: number;
     /** Maximum concurrent requests allowed (0 = unlimited) */
     concurrencyLimit: number;
-    /** Requests rejected due to concurrency limits */
+    /** Fetches rejected by maxQueueLength or maxQueueWaitMs */
     rejectedRequests: number;
-    /** Peak concurrent requests reached */
+    /** Most fetches running at once */
     peakConcurrency: number;
+    /** Calls made to the fetch function, retries included */
+    fetchAttempts: number;
+    /** Calls that retried a failed fetch (included in fetchAttempts) */
+    retries: number;
   };
 
   // ========== 💾 MEMORY MANAGEMENT ==========
@@ -232,6 +1012,14 @@ export interface PromiseCacherStatistics {
     memoryReclaimed: string;
     /** Total memory reclaimed in bytes */
     memoryReclaimedBytes: number;
+    /** Largest amount by which settling entries pushed usage past the limit (human readable) */
+    peakOvershoot: string;
+    /** Largest amount by which settling entries pushed usage past the limit, in bytes */
+    peakOvershootBytes: number;
+    /** Most entries held beyond maxEntries because they were still being fetched */
+    peakEntryOvershoot: number;
+    /** Entries evicted, by reason */
+    evictions: Record<EvictionReasonType, number>;
   };
 
   // ========== 📈 CACHE INVENTORY ==========
@@ -266,6 +1054,19 @@ export interface PromiseCacherStatistics {
     recentErrors: number;
     /** Timeout occurrences */
     timeouts: number;
+    /** Circuit breaker status, undefined when no circuit breaker is configured */
+    circuitBreaker?: {
+      /** Current breaker state */
+      state: CircuitStateType;
+      /** Fetch failures since the last success */
+      consecutiveFailures: number;
+      /** Error rate percentage over the recent fetches */
+      errorRate: number;
+      /** Fetches rejected without calling the fetch function */
+      rejectedFetches: number;
+      /** Time left until a probe fetch is let through (ms) */
+      retryAfterMs: number;
+    };
   };
 
   // ========== 🕒 TEMPORAL DATA ==========
@@ -283,28 +1084,46 @@ export interface PromiseCacherStatistics {
 }
 
 export interface PerformanceMetrics {
-  /** Array storing response times in milliseconds for calculating performance statistics */
-  responseTimes: number[];
-  /** Array storing response times specifically for cached requests */
-  cachedResponseTimes: number[];
-  /** Array storing response times specifically for fresh fetch requests */
-  fetchResponseTimes: number[];
+  /** Response times in milliseconds of requests served from cache */
+  hitLatency: WindowedLatencyHistogram;
+  /** Response times in milliseconds of requests that waited for a fetch */
+  missLatency: WindowedLatencyHistogram;
+  /** Requests served from cache, by key */
+  hitKeys: SpaceSaving<any>;
+  /** Requests that required a fetch, by key */
+  missKeys: SpaceSaving<any>;
+  /** Milliseconds spent fetching, by key */
+  fetchTimeKeys: SpaceSaving<any>;
   /** Total number of fetch operations executed (including both cache hits and misses) */
   totalFetchCount: number;
-  /** Number of concurrent requests currently being processed */
+  /** Number of fetches currently running */
   currentConcurrentRequests: number;
-  /** Maximum number of concurrent requests reached during the lifecycle */
+  /** Most fetches running at once during the lifecycle */
   maxConcurrentRequestsReached: number;
-  /** Number of requests that were rejected due to system constraints */
+  /** Number of fetches rejected by the queue limits */
   rejectedRequestsCount: number;
   /** Counter tracking how many times memory usage exceeded the configured limit */
   overMemoryLimitCount: number;
   /** Total number of cache access attempts (get method calls) */
   usedCount: number;
+  /** Number of cache hits served with stale data while a refresh was running */
+  staleHitCount: number;
+  /** Number of memory misses that were served from the storage adapter */
+  storageHitCount: number;
   /** Total bytes of memory released through cache cleanup operations */
   releasedMemoryBytes: number;
-  /** Number of timeouts that occurred during fetch operations */
+  /** Largest number of bytes by which memory usage exceeded the limit before cleanup */
+  peakOvershootBytes: number;
+  /** Largest number of entries held beyond maxEntries after cleanup */
+  peakEntryOvershoot: number;
+  /** Number of fetches that exceeded fetchingPolicy.timeoutMs */
   timeoutCount: number;
+  /** Number of entries evicted, by reason */
+  evictionCounts: Record<EvictionReasonType, number>;
+  /** Number of calls made to the fetch function, retries included */
+  fetchAttemptCount: number;
+  /** Number of fetch function calls that retried a failed attempt */
+  retryCount: number;
   /** Number of errors that occurred during fetch operations */
   errorCount: number;
   /** Timestamp when the cache was created */
@@ -0,0 +1,88 @@
+import { WarmUpReport } from './define';
+
+/**
+ * Rejects a fetch that was not attempted because the circuit breaker is open.
+ * Never cached and never retried.
+ */
+export class CircuitOpenError extends Error {
+  /**
+   * Creates a new circuit open error.
+   *
+   * @param retryAfterMs - Time left until the breaker lets a probe through
+   */
+  public constructor(public readonly retryAfterMs: number) {
+    super(`Error CacheTask circuit open: retry after ${retryAfterMs}ms`);
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Rejects a miss that was not queued because the fetch queue is full.
+ * Never cached.
+ */
+export class QueueFullError extends Error {
+  /**
+   * Creates a new queue full error.
+   *
+   * @param maxQueueLength - The configured queue length limit
+   */
+  public constructor(public readonly maxQueueLength: number) {
+    super(`Error CacheTask queue full: ${maxQueueLength} fetches waiting`);
+    this.name = 'QueueFullError';
+    Object.setPrototypeOf(this, QueueFullError.prototype);
+  }
+}
+
+/**
+ * Rejects a fetch that did not settle within fetchingPolicy.timeoutMs.
+ * Its signal is aborted; whether the error is cached follows errorTaskPolicy.
+ */
+export class TimeoutError extends Error {
+  /**
+   * Creates a new timeout error.
+   *
+   * @param timeoutMs - The time limit that was exceeded
+   */
+  public constructor(public readonly timeoutMs: number) {
+    super(`Error CacheTask timeout: ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+/**
+ * Rejects a fetch that waited in the queue for longer than maxQueueWaitMs.
+ * Never cached. Counted as a rejected request rather than a timeout,
+ * and not a TimeoutError, since the fetch never started.
+ */
+export class QueueTimeoutError extends Error {
+  /**
+   * Creates a new queue timeout error.
+   *
+   * @param maxQueueWaitMs - The configured queue wait limit
+   */
+  public constructor(public readonly maxQueueWaitMs: number) {
+    super(`Error CacheTask queue timeout: waited ${maxQueueWaitMs}ms`);
+    this.name = 'QueueTimeoutError';
+    Object.setPrototypeOf(this, QueueTimeoutError.prototype);
+  }
+}
+
+/**
+ * Rejects a warm-up that stopped at its first failure.
+ */
+export class WarmUpError extends Error {
+  /**
+   * Creates a new warm-up error.
+   *
+   * @param report - Progress of the warm-up when it stopped, the failure included
+   */
+  public constructor(public readonly report: WarmUpReport) {
+    super(
+      `Error warm-up failed: ${report.failures[0]?.error.message} (${report.loaded} keys loaded)`,
+    );
+    this.name = 'WarmUpError';
+    Object.setPrototypeOf(this, WarmUpError.prototype);
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  EvictionPolicy,
+  EvictionPolicyType,
+  EvictionReasonType,
+} from './define';
+import { LruEvictionPolicy } from './eviction/lru-eviction-policy';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+import { sizeof } from './util/sizeof';
+
+describe('PromiseCacher - eviction policies', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async (key: string) => `value-${key}`);
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  describe('maxEntries', () => {
+    it('should evict the least recently used entry beyond maxEntries', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        freeUpMemoryPolicy: {
+          evictionPolicy: EvictionPolicyType.LRU,
+          maxEntries: 2,
+        },
+      });
+      const evictListener = jest.fn();
+      cacher.on('evict', evictListener);
+
+      await cacher.get('a');
+      await cacher.get('b');
+      await cacher.get('a');
+      await cacher.get('c');
+
+      expect(cacher.cacheCount).toBe(2);
+      expect(cacher.has('a')).toBe(true);
+      expect(cacher.has('b')).toBe(false);
+      expect(cacher.has('c')).toBe(true);
+      expect(evictListener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'b',
+          reason: EvictionReasonType.CAPACITY,
+        }),
+      );
+    });
+
+    it('should evict the least frequently used entry with LFU', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        freeUpMemoryPolicy: {
+          evictionPolicy: EvictionPolicyType.LFU,
+          maxEntries: 2,
+        },
+      });
+
+      await cacher.get('a');
+      await cacher.get('a');
+      await cacher.get('b');
+      await cacher.get('c');
+
+      expect(cacher.has('a')).toBe(true);
+      expect(cacher.has('b')).toBe(false);
+      expect(cacher.has('c')).toBe(true);
+    });
+
+    it('should keep entries that are still being fetched', async () => {
+      mockFetchFn.mockImplementation(async (key: string) => {
+        await delay(20);
+        return `value-${key}`;
+      });
+      cacher = new PromiseCacher(mockFetchFn, {
+        freeUpMemoryPolicy: {
+          evictionPolicy: EvictionPolicyType.LRU,
+          maxEntries: 1,
+        },
+      });
+
+      const pending = Promise.all([cacher.get('a'), cacher.get('b')]);
+
+      expect(cacher.cacheCount).toBe(2);
+      await expect(pending).resolves.toEqual(['value-a', 'value-b']);
+    });
+
+    it.each([
+      EvictionPolicyType.SCORE,
+      EvictionPolicyType.LRU,
+      EvictionPolicyType.LFU,
+      EvictionPolicyType.TINY_LFU,
+      EvictionPolicyType.ARC,
+    ])('should stay within maxEntries with %s', async (evictionPolicy) => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        freeUpMemoryPolicy: { evictionPolicy, maxEntries: 3 },
+      });
+
+      for (let i = 0; i < 10; i++) {
+        await cacher.get(`key-${i % 5}`);
+      }
+
+      expect(cacher.cacheCount).toBe(3);
+    });
+  });
+
+  describe('custom policies', () => {
+    it('should track entries with a custom policy instance', async () => {
+      const policy: EvictionPolicy = new LruEvictionPolicy();
+      const onInsert = jest.spyOn(policy, 'onInsert');
+      const onAccess = jest.spyOn(policy, 'onAccess');
+      const onRemove = jest.spyOn(policy, 'onRemove');
+      cacher = new PromiseCacher(mockFetchFn, {
+        cachePolicy: { cacheKeyTransform: (key) => key },
+        freeUpMemoryPolicy: { evictionPolicy: policy },
+      });
+
+      await cacher.get('a');
+      await cacher.get('a');
+      cacher.delete('a');
+
+      expect(onInsert).toHaveBeenCalledWith('a');
+      expect(onAccess).toHaveBeenCalledWith('a');
+      expect(onRemove).toHaveBeenCalledWith('a', EvictionReasonType.MANUAL);
+    });
+  });
+
+  describe('memory limit', () => {
+    it('should free memory in the order of the eviction policy', async () => {
+      const entryBytes = sizeof('value-a');
+      cacher = new PromiseCacher(mockFetchFn, {
+        freeUpMemoryPolicy: {
+          evictionPolicy: EvictionPolicyType.LRU,
+          maxMemoryBytes: entryBytes * 2.5,
+          minMemoryBytes: entryBytes * 2,
+        },
+      });
+      const evictListener = jest.fn();
+      cacher.on('evict', evictListener);
+
+      await cacher.get('a');
+      await cacher.get('b');
+      await cacher.get('a');
+      await cacher.get('c');
+
+      expect(evictListener).toHaveBeenCalledTimes(1);
+      expect(evictListener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'b',
+          reason: EvictionReasonType.MEMORY,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { EvictionReasonType } from '../define';
+import { ArcEvictionPolicy } from './arc-eviction-policy';
+
+describe('ArcEvictionPolicy', () => {
+  const always = () => true;
+
+  it('should evict keys used once before keys used again', () => {
+    const policy = new ArcEvictionPolicy(4);
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onAccess('a');
+
+    expect(policy.selectVictim(always)).toBe('b');
+  });
+
+  it('should grow the recency target when a key evicted from the recency list returns', () => {
+    const policy = new ArcEvictionPolicy(4);
+    policy.onInsert('a');
+    policy.onRemove('a', EvictionReasonType.CAPACITY);
+
+    policy.onInsert('a');
+
+    expect(policy.recencyTarget).toBe(1);
+  });
+
+  it('should shrink the recency target when a key evicted from the frequency list returns', () => {
+    const policy = new ArcEvictionPolicy(4);
+    policy.onInsert('a');
+    policy.onRemove('a', EvictionReasonType.CAPACITY);
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onAccess('b');
+    policy.onRemove('b', EvictionReasonType.CAPACITY);
+
+    policy.onInsert('b');
+
+    expect(policy.recencyTarget).toBe(0);
+  });
+
+  it('should prefer the frequency list once the recency list is within target', () => {
+    const policy = new ArcEvictionPolicy(4);
+    policy.onInsert('a');
+    policy.onRemove('a', EvictionReasonType.CAPACITY);
+    policy.onInsert('a');
+    policy.onInsert('b');
+
+    // "a" returned from the ghost list into T2 and raised the target to 1
+    expect(policy.selectVictim(always)).toBe('a');
+  });
+
+  it('should not remember keys removed for other reasons than room', () => {
+    const policy = new ArcEvictionPolicy(4);
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onAccess('b');
+    policy.onRemove('a', EvictionReasonType.MANUAL);
+    policy.onRemove('b', EvictionReasonType.TTL);
+
+    policy.onInsert('a');
+    policy.onInsert('b');
+
+    expect(policy.recencyTarget).toBe(0);
+    expect(policy.selectVictim(always)).toBe('a');
+  });
+
+  it('should skip keys that can not be evicted', () => {
+    const policy = new ArcEvictionPolicy(4);
+    policy.onInsert('a');
+    policy.onInsert('b');
+
+    expect(policy.selectVictim((key) => key !== 'a')).toBe('b');
+    expect(policy.selectVictim(() => false)).toBeUndefined();
+  });
+
+  it('should forget every key on clear', () => {
+    const policy = new ArcEvictionPolicy(4);
+    policy.onInsert('a');
+    policy.onRemove('a', EvictionReasonType.CAPACITY);
+
+    policy.clear();
+    policy.onInsert('a');
+
+    expect(policy.recencyTarget).toBe(0);
+    expect(policy.size).toBe(1);
+  });
+});
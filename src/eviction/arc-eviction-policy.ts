@@ -0,0 +1,128 @@
+import { EvictionPolicy, EvictionReasonType } from '../define';
+import { firstEvictable, touch } from './key-order';
+
+/**
+ * Adaptive Replacement Cache eviction.
+ *
+ * Entries seen once live in T1 and entries seen again in T2. Keys evicted for room,
+ * by the entry count or the memory limit, are remembered in the ghost lists B1 and B2; a new entry found in a ghost list
+ * shifts the target size of T1, so the policy adapts between favoring recency
+ * and favoring frequency to the workload.
+ */
+export class ArcEvictionPolicy implements EvictionPolicy {
+  /** Entries used once, least recently used first */
+  private t1 = new Set<string>();
+
+  /** Entries used more than once, least recently used first */
+  private t2 = new Set<string>();
+
+  /** Ghosts of entries evicted from T1 */
+  private b1 = new Set<string>();
+
+  /** Ghosts of entries evicted from T2 */
+  private b2 = new Set<string>();
+
+  /** Adaptive target size of T1 */
+  private target: number = 0;
+
+  /**
+   * Creates a new ARC policy.
+   *
+   * @param capacity - Expected number of entries, bounding the adaptation and the ghost lists.
+   * When undefined, the number of tracked entries is used
+   */
+  public constructor(private readonly capacity?: number) {}
+
+  /**
+   * Gets the number of tracked entries.
+   */
+  public get size(): number {
+    return this.t1.size + this.t2.size;
+  }
+
+  /**
+   * Gets the adaptive target size of the recency list.
+   */
+  public get recencyTarget(): number {
+    return this.target;
+  }
+
+  private get effectiveCapacity(): number {
+    return Math.max(1, this.capacity ?? this.size);
+  }
+
+  public onInsert(key: string): void {
+    if (this.t1.has(key) || this.t2.has(key)) {
+      this.onAccess(key);
+      return;
+    }
+    const capacity = this.effectiveCapacity;
+    if (this.b1.has(key)) {
+      // Recency list was too short
+      const delta = Math.max(this.b2.size / this.b1.size, 1);
+      this.target = Math.min(capacity, this.target + delta);
+      this.b1.delete(key);
+      this.t2.add(key);
+    } else if (this.b2.has(key)) {
+      // Frequency list was too short
+      const delta = Math.max(this.b1.size / this.b2.size, 1);
+      this.target = Math.max(0, this.target - delta);
+      this.b2.delete(key);
+      this.t2.add(key);
+    } else {
+      this.t1.add(key);
+    }
+  }
+
+  public onAccess(key: string): void {
+    if (this.t1.has(key)) {
+      this.t1.delete(key);
+      this.t2.add(key);
+    } else if (this.t2.has(key)) {
+      touch(this.t2, key);
+    }
+  }
+
+  public onRemove(key: string, reason?: EvictionReasonType): void {
+    // Only keys pushed out for room tell the list sizes apart when they return
+    const isGhost =
+      reason === EvictionReasonType.CAPACITY ||
+      reason === EvictionReasonType.MEMORY;
+    if (this.t1.delete(key)) {
+      if (isGhost) this.remember(this.b1, key);
+    } else if (this.t2.delete(key)) {
+      if (isGhost) this.remember(this.b2, key);
+    }
+  }
+
+  public selectVictim(canEvict: (key: string) => boolean): string | undefined {
+    const preferRecency =
+      this.t1.size > 0 && (this.t1.size > this.target || this.t2.size === 0);
+    const [first, second] = preferRecency
+      ? [this.t1, this.t2]
+      : [this.t2, this.t1];
+    return firstEvictable(first, canEvict) ?? firstEvictable(second, canEvict);
+  }
+
+  public clear(): void {
+    this.t1.clear();
+    this.t2.clear();
+    this.b1.clear();
+    this.b2.clear();
+    this.target = 0;
+  }
+
+  /**
+   * Adds a ghost, dropping the oldest ghosts beyond the capacity.
+   *
+   * @param ghosts - The ghost list
+   * @param key - The evicted key
+   */
+  private remember(ghosts: Set<string>, key: string): void {
+    touch(ghosts, key);
+    const capacity = this.effectiveCapacity;
+    while (ghosts.size > capacity) {
+      ghosts.delete(ghosts.values().next().value as string);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { EvictionPolicy, EvictionPolicyType } from '../define';
+import { ArcEvictionPolicy } from './arc-eviction-policy';
+import { LfuEvictionPolicy } from './lfu-eviction-policy';
+import { LruEvictionPolicy } from './lru-eviction-policy';
+import { ScoreEvictionPolicy } from './score-eviction-policy';
+import { TinyLfuEvictionPolicy } from './tiny-lfu-eviction-policy';
+
+/**
+ * Resolves the configured eviction policy.
+ *
+ * @param policy - A built-in policy type or a custom policy instance
+ * @param scoreOf - Computes the score of an entry, used by the score-based policy
+ * @param capacity - Expected number of entries, used to size adaptive policies
+ * @param rankingMaxAgeMs - How long the score-based policy reuses a ranking
+ * @returns The policy instance to track entries with
+ */
+export function createEvictionPolicy(
+  policy: EvictionPolicyType | EvictionPolicy = EvictionPolicyType.SCORE,
+  scoreOf: (key: string) => number,
+  capacity?: number,
+  rankingMaxAgeMs?: number,
+): EvictionPolicy {
+  if (typeof policy === 'object') {
+    return policy;
+  }
+  switch (policy) {
+    case EvictionPolicyType.LRU:
+      return new LruEvictionPolicy();
+    case EvictionPolicyType.LFU:
+      return new LfuEvictionPolicy();
+    case EvictionPolicyType.TINY_LFU:
+      return new TinyLfuEvictionPolicy(capacity);
+    case EvictionPolicyType.ARC:
+      return new ArcEvictionPolicy(capacity);
+    default:
+      return new ScoreEvictionPolicy(scoreOf, rankingMaxAgeMs);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Finds the first key, in insertion order, that may be evicted.
+ *
+ * @param keys - Keys ordered from least to most recently inserted
+ * @param canEvict - Returns false for keys that must be kept
+ * @returns The first evictable key, or undefined if there is none
+ */
+export function firstEvictable(
+  keys: Set<string>,
+  canEvict: (key: string) => boolean,
+): string | undefined {
+  const iterator = keys.values();
+  for (let next = iterator.next(); !next.done; next = iterator.next()) {
+    if (canEvict(next.value)) {
+      return next.value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Moves a key to the most recently used end of an ordered set.
+ *
+ * @param keys - Keys ordered from least to most recently used
+ * @param key - The key to move or add
+ */
+export function touch(keys: Set<string>, key: string): void {
+  keys.delete(key);
+  keys.add(key);
+}
@@ -0,0 +1,62 @@
+import { LfuEvictionPolicy } from './lfu-eviction-policy';
+
+describe('LfuEvictionPolicy', () => {
+  const always = () => true;
+
+  it('should pick the least frequently used key', () => {
+    const policy = new LfuEvictionPolicy();
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onAccess('a');
+
+    expect(policy.frequencyOf('a')).toBe(2);
+    expect(policy.selectVictim(always)).toBe('b');
+  });
+
+  it('should pick the least recently used key among equal frequencies', () => {
+    const policy = new LfuEvictionPolicy();
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onAccess('a');
+    policy.onAccess('b');
+
+    expect(policy.selectVictim(always)).toBe('a');
+  });
+
+  it('should fall back to more frequent keys when the least frequent can not be evicted', () => {
+    const policy = new LfuEvictionPolicy();
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onAccess('b');
+    policy.onInsert('c');
+    policy.onAccess('c');
+    policy.onAccess('c');
+
+    expect(policy.selectVictim((key) => key !== 'a')).toBe('b');
+  });
+
+  it('should track the lowest frequency after removals', () => {
+    const policy = new LfuEvictionPolicy();
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onAccess('b');
+    policy.onAccess('b');
+    policy.onInsert('c');
+    policy.onAccess('c');
+
+    policy.onRemove('a');
+
+    expect(policy.size).toBe(2);
+    expect(policy.selectVictim(always)).toBe('c');
+  });
+
+  it('should forget every key on clear', () => {
+    const policy = new LfuEvictionPolicy();
+    policy.onInsert('a');
+
+    policy.clear();
+
+    expect(policy.frequencyOf('a')).toBe(0);
+    expect(policy.selectVictim(always)).toBeUndefined();
+  });
+});
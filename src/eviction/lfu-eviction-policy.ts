@@ -0,0 +1,113 @@
+import { EvictionPolicy } from '../define';
+import { firstEvictable } from './key-order';
+
+/**
+ * Evicts the least frequently used entry first, the least recently used among equals.
+ * Entries are kept in one bucket per access count, so every operation is O(1)
+ * apart from skipping entries that can not be evicted.
+ */
+export class LfuEvictionPolicy implements EvictionPolicy {
+  /** Access count per tracked key */
+  private frequencies = new Map<string, number>();
+
+  /** Keys per access count, each ordered from least to most recently used */
+  private buckets = new Map<number, Set<string>>();
+
+  /** Smallest access count that has a bucket */
+  private minFrequency: number = 0;
+
+  /**
+   * Gets the number of tracked entries.
+   */
+  public get size(): number {
+    return this.frequencies.size;
+  }
+
+  /**
+   * Gets how often an entry was used.
+   *
+   * @param key - The tracked key
+   * @returns The access count, 0 for untracked keys
+   */
+  public frequencyOf(key: string): number {
+    return this.frequencies.get(key) ?? 0;
+  }
+
+  public onInsert(key: string): void {
+    if (this.frequencies.has(key)) {
+      this.onAccess(key);
+      return;
+    }
+    this.frequencies.set(key, 1);
+    this.addToBucket(key, 1);
+    this.minFrequency = 1;
+  }
+
+  public onAccess(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) return;
+    this.removeFromBucket(key, frequency);
+    this.frequencies.set(key, frequency + 1);
+    this.addToBucket(key, frequency + 1);
+    if (this.minFrequency === frequency && !this.buckets.has(frequency)) {
+      this.minFrequency = frequency + 1;
+    }
+  }
+
+  public onRemove(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) return;
+    this.frequencies.delete(key);
+    this.removeFromBucket(key, frequency);
+    if (this.minFrequency === frequency && !this.buckets.has(frequency)) {
+      this.minFrequency = this.lowestFrequency();
+    }
+  }
+
+  public selectVictim(canEvict: (key: string) => boolean): string | undefined {
+    const lowest = this.buckets.get(this.minFrequency);
+    const victim = lowest && firstEvictable(lowest, canEvict);
+    if (victim !== undefined) {
+      return victim;
+    }
+    // The least frequent entries are all pinned, fall back to the other buckets in order
+    const frequencies = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+    for (let i = 0; i < frequencies.length; i++) {
+      const key = firstEvictable(this.buckets.get(frequencies[i]), canEvict);
+      if (key !== undefined) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  public clear(): void {
+    this.frequencies.clear();
+    this.buckets.clear();
+    this.minFrequency = 0;
+  }
+
+  private addToBucket(key: string, frequency: number): void {
+    const bucket = this.buckets.get(frequency) ?? new Set<string>();
+    bucket.add(key);
+    this.buckets.set(frequency, bucket);
+  }
+
+  private removeFromBucket(key: string, frequency: number): void {
+    const bucket = this.buckets.get(frequency);
+    bucket?.delete(key);
+    if (bucket?.size === 0) {
+      this.buckets.delete(frequency);
+    }
+  }
+
+  private lowestFrequency(): number {
+    let lowest = 0;
+    this.buckets.forEach((_, frequency) => {
+      if (lowest === 0 || frequency < lowest) {
+        lowest = frequency;
+      }
+    });
+    return lowest;
+  }
+}
@@ -0,0 +1,46 @@
+import { LruEvictionPolicy } from './lru-eviction-policy';
+
+describe('LruEvictionPolicy', () => {
+  const always = () => true;
+
+  it('should pick the least recently used key', () => {
+    const policy = new LruEvictionPolicy();
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onInsert('c');
+
+    policy.onAccess('a');
+
+    expect(policy.selectVictim(always)).toBe('b');
+  });
+
+  it('should skip keys that can not be evicted', () => {
+    const policy = new LruEvictionPolicy();
+    policy.onInsert('a');
+    policy.onInsert('b');
+
+    expect(policy.selectVictim((key) => key !== 'a')).toBe('b');
+    expect(policy.selectVictim(() => false)).toBeUndefined();
+  });
+
+  it('should ignore accesses to untracked keys', () => {
+    const policy = new LruEvictionPolicy();
+    policy.onInsert('a');
+
+    policy.onAccess('b');
+
+    expect(policy.size).toBe(1);
+  });
+
+  it('should stop tracking removed and cleared keys', () => {
+    const policy = new LruEvictionPolicy();
+    policy.onInsert('a');
+    policy.onInsert('b');
+
+    policy.onRemove('a');
+    expect(policy.selectVictim(always)).toBe('b');
+
+    policy.clear();
+    expect(policy.selectVictim(always)).toBeUndefined();
+  });
+});
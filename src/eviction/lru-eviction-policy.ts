@@ -0,0 +1,40 @@
+import { EvictionPolicy } from '../define';
+import { firstEvictable, touch } from './key-order';
+
+/**
+ * Evicts the least recently used entry first.
+ * Every operation is O(1), apart from skipping entries that can not be evicted.
+ */
+export class LruEvictionPolicy implements EvictionPolicy {
+  /** Tracked keys from least to most recently used */
+  private keys = new Set<string>();
+
+  /**
+   * Gets the number of tracked entries.
+   */
+  public get size(): number {
+    return this.keys.size;
+  }
+
+  public onInsert(key: string): void {
+    touch(this.keys, key);
+  }
+
+  public onAccess(key: string): void {
+    if (this.keys.has(key)) {
+      touch(this.keys, key);
+    }
+  }
+
+  public onRemove(key: string): void {
+    this.keys.delete(key);
+  }
+
+  public selectVictim(canEvict: (key: string) => boolean): string | undefined {
+    return firstEvictable(this.keys, canEvict);
+  }
+
+  public clear(): void {
+    this.keys.clear();
+  }
+}
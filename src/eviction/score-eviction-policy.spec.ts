@@ -0,0 +1,75 @@
+import { delay } from '../util/delay';
+import { ScoreEvictionPolicy } from './score-eviction-policy';
+
+describe('ScoreEvictionPolicy', () => {
+  const always = () => true;
+  let scores: Record<string, number>;
+  let scoreOf: jest.Mock;
+
+  beforeEach(() => {
+    scores = { a: 3, b: 1, c: 2 };
+    scoreOf = jest.fn((key: string) => scores[key] ?? 0);
+  });
+
+  it('should pick the key with the lowest score', () => {
+    const policy = new ScoreEvictionPolicy(scoreOf);
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onInsert('c');
+
+    expect(policy.selectVictim(always)).toBe('b');
+    expect(policy.selectVictim((key) => key !== 'b')).toBe('c');
+    expect(policy.selectVictim(() => false)).toBeUndefined();
+  });
+
+  it('should reuse a ranking across inserts and accesses', () => {
+    const policy = new ScoreEvictionPolicy(scoreOf, 1000);
+    policy.onInsert('a');
+    policy.onInsert('b');
+    policy.onInsert('c');
+
+    for (let i = 0; i < 2; i++) {
+      const victim = policy.selectVictim(always);
+      policy.onRemove(victim);
+      policy.onInsert(`new-${i}`);
+      policy.onAccess('a');
+    }
+
+    expect(policy.size).toBe(3);
+    expect(scoreOf).toHaveBeenCalledTimes(3);
+  });
+
+  it('should rank inserted keys once no ranked key can be evicted', () => {
+    const policy = new ScoreEvictionPolicy(scoreOf, 1000);
+    policy.onInsert('a');
+    policy.selectVictim(always);
+
+    policy.onInsert('b');
+
+    expect(policy.selectVictim((key) => key !== 'a')).toBe('b');
+  });
+
+  it('should rank again once the ranking is older than its max age', async () => {
+    const policy = new ScoreEvictionPolicy(scoreOf, 10);
+    policy.onInsert('a');
+    policy.onInsert('b');
+    expect(policy.selectVictim(always)).toBe('b');
+
+    scores.a = 0;
+    await delay(20);
+
+    expect(policy.selectVictim(always)).toBe('a');
+  });
+
+  it('should stop tracking removed and cleared keys', () => {
+    const policy = new ScoreEvictionPolicy(scoreOf);
+    policy.onInsert('a');
+    policy.onInsert('b');
+
+    policy.onRemove('b');
+    expect(policy.selectVictim(always)).toBe('a');
+
+    policy.clear();
+    expect(policy.selectVictim(always)).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { EvictionPolicy } from '../define';
+
+/**
+ * Evicts the entry with the lowest score first, as computed by calcCacheScoreFn.
+ *
+ * Ranking every entry costs O(n log n), so a ranking is reused for rankingMaxAgeMs
+ * rather than recomputed on every insert or access. Score changes within that time
+ * are picked up by the next ranking, and entries inserted since are only ranked
+ * once no ranked entry can be evicted.
+ */
+export class ScoreEvictionPolicy implements EvictionPolicy {
+  /** Tracked keys */
+  private keys = new Set<string>();
+
+  /** Keys ranked from lowest to highest score, undefined until first ranked */
+  private ranking?: string[];
+
+  /** Position in the ranking before which every key has been removed */
+  private rankingStart: number = 0;
+
+  /** Timestamp of the last ranking */
+  private rankedAt: number = 0;
+
+  /** Whether keys were inserted since the last ranking */
+  private hasUnrankedKeys: boolean = false;
+
+  /**
+   * Creates a new score-based policy.
+   *
+   * @param scoreOf - Computes the current score of a tracked entry, higher scores are kept longer
+   * @param rankingMaxAgeMs - How long a ranking is reused before scores are computed again
+   */
+  public constructor(
+    private readonly scoreOf: (key: string) => number,
+    private readonly rankingMaxAgeMs: number = 0,
+  ) {}
+
+  /**
+   * Gets the number of tracked entries.
+   */
+  public get size(): number {
+    return this.keys.size;
+  }
+
+  public onInsert(key: string): void {
+    if (this.keys.has(key)) return;
+    this.keys.add(key);
+    this.hasUnrankedKeys = true;
+  }
+
+  public onAccess(key: string): void {
+    // Scores are read when ranking, nothing to track per access
+  }
+
+  public onRemove(key: string): void {
+    this.keys.delete(key);
+  }
+
+  public selectVictim(canEvict: (key: string) => boolean): string | undefined {
+    if (!this.ranking || Date.now() - this.rankedAt > this.rankingMaxAgeMs) {
+      this.rank();
+    }
+    const victim = this.findRankedVictim(canEvict);
+    if (victim !== undefined || !this.hasUnrankedKeys) {
+      return victim;
+    }
+    this.rank();
+    return this.findRankedVictim(canEvict);
+  }
+
+  public clear(): void {
+    this.keys.clear();
+    this.ranking = undefined;
+    this.hasUnrankedKeys = false;
+  }
+
+  /**
+   * Ranks every tracked key by its current score.
+   */
+  private rank(): void {
+    this.ranking = Array.from(this.keys)
+      .map((key) => ({ key, score: this.scoreOf(key) }))
+      .sort((a, b) => a.score - b.score)
+      .map(({ key }) => key);
+    this.rankingStart = 0;
+    this.rankedAt = Date.now();
+    this.hasUnrankedKeys = false;
+  }
+
+  /**
+   * Finds the lowest ranked key that is still tracked and may be evicted.
+   *
+   * @param canEvict - Returns false for entries that must be kept
+   * @returns The key of the victim, or undefined if no ranked key can be evicted
+   */
+  private findRankedVictim(
+    canEvict: (key: string) => boolean,
+  ): string | undefined {
+    const ranking = this.ranking;
+    // Removed keys at the front are skipped once rather than on every call
+    while (
+      this.rankingStart < ranking.length &&
+      !this.keys.has(ranking[this.rankingStart])
+    ) {
+      this.rankingStart++;
+    }
+    for (let i = this.rankingStart; i < ranking.length; i++) {
+      const key = ranking[i];
+      if (this.keys.has(key) && canEvict(key)) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,65 @@
+import { TinyLfuEvictionPolicy } from './tiny-lfu-eviction-policy';
+
+describe('TinyLfuEvictionPolicy', () => {
+  const always = () => true;
+
+  it('should reject a one-off key in favor of a popular one', () => {
+    const policy = new TinyLfuEvictionPolicy(2);
+    policy.onInsert('popular');
+    policy.onAccess('popular');
+    policy.onAccess('popular');
+    policy.onInsert('one-off');
+    policy.onInsert('another');
+
+    // The window holds 1 entry, the popular key moves on to the empty main space
+
+    expect(policy.selectVictim(always)).toBe('one-off');
+  });
+
+  it('should admit a candidate that is used more than the main space victim', () => {
+    const policy = new TinyLfuEvictionPolicy(2);
+    policy.onInsert('cold');
+    policy.onInsert('warm');
+    policy.onAccess('warm');
+    policy.onAccess('warm');
+    policy.onInsert('new');
+
+    // "cold" leaves the window for probation, "warm" beats it on frequency
+    expect(policy.selectVictim(always)).toBe('cold');
+
+    policy.onRemove('cold');
+    policy.onInsert('newer');
+
+    // "new" leaves the window but is used less than "warm"
+    expect(policy.selectVictim(always)).toBe('new');
+  });
+
+  it('should remember the frequency of evicted keys', () => {
+    const policy = new TinyLfuEvictionPolicy(4);
+    policy.onInsert('a');
+    policy.onAccess('a');
+
+    policy.onRemove('a');
+
+    expect(policy.size).toBe(0);
+    expect(policy.frequencyOf('a')).toBe(2);
+  });
+
+  it('should skip keys that can not be evicted', () => {
+    const policy = new TinyLfuEvictionPolicy(4);
+    policy.onInsert('a');
+
+    expect(policy.selectVictim(() => false)).toBeUndefined();
+    expect(policy.selectVictim(always)).toBe('a');
+  });
+
+  it('should forget every key on clear', () => {
+    const policy = new TinyLfuEvictionPolicy(4);
+    policy.onInsert('a');
+
+    policy.clear();
+
+    expect(policy.frequencyOf('a')).toBe(0);
+    expect(policy.selectVictim(always)).toBeUndefined();
+  });
+});
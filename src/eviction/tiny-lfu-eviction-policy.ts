@@ -0,0 +1,152 @@
+import { EvictionPolicy } from '../define';
+import { CountMinSketch } from '../util/count-min-sketch';
+import { firstEvictable, touch } from './key-order';
+
+/** Share of the capacity given to the admission window */
+const WindowRatio = 0.01;
+
+/** Share of the main space given to the protected segment */
+const ProtectedRatio = 0.8;
+
+/**
+ * Window TinyLFU eviction.
+ *
+ * New entries land in a small LRU window. Entries leaving the window must beat
+ * the main space's eviction candidate on estimated frequency to be admitted, so
+ * a burst of one-off keys can not flush out popular entries. The main space is a
+ * segmented LRU: entries start in probation and move to protected when used again.
+ *
+ * Frequencies come from a count-min sketch that keeps counting evicted keys,
+ * so a popular key that was evicted is admitted again quickly.
+ */
+export class TinyLfuEvictionPolicy implements EvictionPolicy {
+  /** Recently inserted entries, least recently used first */
+  private window = new Set<string>();
+
+  /** Main space entries used once, least recently used first */
+  private probation = new Set<string>();
+
+  /** Main space entries used more than once, least recently used first */
+  private protected = new Set<string>();
+
+  /** Frequency estimates of every key seen, evicted ones included */
+  private sketch: CountMinSketch;
+
+  /**
+   * Creates a new Window TinyLFU policy.
+   *
+   * @param capacity - Expected number of entries, sizing the segments and the sketch.
+   * When undefined, segments are sized by the entries tracked at the time
+   */
+  public constructor(private readonly capacity?: number) {
+    this.sketch = new CountMinSketch(Math.max(64, (capacity ?? 1024) * 4));
+  }
+
+  /**
+   * Gets the number of tracked entries.
+   */
+  public get size(): number {
+    return this.window.size + this.probation.size + this.protected.size;
+  }
+
+  /**
+   * Gets the estimated frequency of a key.
+   *
+   * @param key - The key to look up
+   * @returns The estimated number of recent accesses
+   */
+  public frequencyOf(key: string): number {
+    return this.sketch.estimate(key);
+  }
+
+  public onInsert(key: string): void {
+    if (this.isTracked(key)) {
+      this.onAccess(key);
+      return;
+    }
+    this.sketch.increment(key);
+    this.window.add(key);
+  }
+
+  public onAccess(key: string): void {
+    if (!this.isTracked(key)) return;
+    this.sketch.increment(key);
+    if (this.window.has(key)) {
+      touch(this.window, key);
+    } else if (this.probation.has(key)) {
+      this.probation.delete(key);
+      this.protected.add(key);
+      this.demoteProtectedOverflow();
+    } else {
+      touch(this.protected, key);
+    }
+  }
+
+  public onRemove(key: string): void {
+    this.window.delete(key);
+    this.probation.delete(key);
+    this.protected.delete(key);
+  }
+
+  public selectVictim(canEvict: (key: string) => boolean): string | undefined {
+    const capacity = this.capacity ?? this.size;
+    const windowCapacity = Math.max(1, Math.floor(capacity * WindowRatio));
+    while (this.window.size > windowCapacity) {
+      const candidate = firstEvictable(this.window, canEvict);
+      if (candidate === undefined) break;
+      const victim = this.mainVictim(canEvict);
+      if (
+        victim === undefined ||
+        this.frequencyOf(candidate) > this.frequencyOf(victim)
+      ) {
+        // The candidate wins admission into the main space
+        this.window.delete(candidate);
+        this.probation.add(candidate);
+        if (victim !== undefined) {
+          return victim;
+        }
+      } else {
+        return candidate;
+      }
+    }
+    return this.mainVictim(canEvict) ?? firstEvictable(this.window, canEvict);
+  }
+
+  public clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.protected.clear();
+    this.sketch.clear();
+  }
+
+  private mainVictim(canEvict: (key: string) => boolean): string | undefined {
+    return (
+      firstEvictable(this.probation, canEvict) ??
+      firstEvictable(this.protected, canEvict)
+    );
+  }
+
+  private isTracked(key: string): boolean {
+    return (
+      this.window.has(key) || this.probation.has(key) || this.protected.has(key)
+    );
+  }
+
+  /**
+   * Moves the least recently used protected entries back to probation
+   * while the protected segment exceeds its share of the main space.
+   */
+  private demoteProtectedOverflow(): void {
+    const capacity = this.capacity ?? this.size;
+    const windowCapacity = Math.max(1, Math.floor(capacity * WindowRatio));
+    const protectedCapacity = Math.max(
+      1,
+      Math.floor((capacity - windowCapacity) * ProtectedRatio),
+    );
+    while (this.protected.size > protectedCapacity) {
+      const demoted = this.protected.values().next().value as string;
+      this.protected.delete(demoted);
+      this.probation.add(demoted);
+    }
+  }
+}
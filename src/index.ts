@@ -1,3 +1,16 @@
+export * from './cache-entry';
 export * from './cache-task';
 export * from './define';
+export * from './errors';
+export * from './eviction/arc-eviction-policy';
+export * from './eviction/lfu-eviction-policy';
+export * from './eviction/lru-eviction-policy';
+export * from './eviction/score-eviction-policy';
+export * from './eviction/tiny-lfu-eviction-policy';
+export * from './metrics/prometheus-exporter';
 export * from './promise-cacher';
+export * from './storage/cacher-storage-adapter';
+export * from './storage/file-system-storage-adapter';
+export * from './storage/memory-storage-adapter';
+export * from './storage/redis-storage-adapter';
+export * from './tiered-promise-cacher';
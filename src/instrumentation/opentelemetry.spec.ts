@@ -0,0 +1,188 @@
+import { context, SpanStatusCode, trace } from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import * as md5 from 'md5';
+import { PromiseCacher } from '../promise-cacher';
+import { delay } from '../util/delay';
+import {
+  OpenTelemetryAttributes,
+  OpenTelemetryInstrumentation,
+} from './opentelemetry';
+
+describe('OpenTelemetryInstrumentation', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+  const tracer = provider.getTracer('test');
+  const contextManager = new AsyncHooksContextManager();
+
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    mockFetchFn = jest.fn(async (key: string) => {
+      tracer.startSpan('upstream').end();
+      await delay(20);
+      if (key.startsWith('bad')) {
+        throw new Error(`failed ${key}`);
+      }
+      return `value-${key}`;
+    });
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  const createCacher = (concurrency?: number) =>
+    new PromiseCacher<string, string>(mockFetchFn, {
+      fetchingPolicy: {
+        concurrency,
+        instrumentation: new OpenTelemetryInstrumentation({ tracer }),
+      },
+    });
+
+  /**
+   * Runs a call inside a new request span, ended once the call settles.
+   */
+  const inRequest = <T>(name: string, call: () => Promise<T>): Promise<T> =>
+    tracer.startActiveSpan(name, (span) =>
+      call().finally(() => {
+        span.end();
+      }),
+    );
+
+  const finishedSpan = (name: string): ReadableSpan =>
+    exporter.getFinishedSpans().find((span) => span.name === name);
+
+  it('should create a span per fetch under the request that missed', async () => {
+    cacher = createCacher();
+
+    await inRequest('request', () => cacher.get('a'));
+
+    const fetchSpan = finishedSpan('promise-cacher.fetch');
+    const requestSpan = finishedSpan('request');
+    expect(fetchSpan.parentSpanId).toBe(requestSpan.spanContext().spanId);
+    expect(fetchSpan.attributes).toMatchObject({
+      [OpenTelemetryAttributes.KEY_HASH]: md5(cacher.getTask('a').taskKey),
+      [OpenTelemetryAttributes.RESULT]: 'miss',
+      [OpenTelemetryAttributes.COALESCED]: 0,
+      [OpenTelemetryAttributes.ATTEMPTS]: 1,
+    });
+    expect(
+      fetchSpan.attributes[OpenTelemetryAttributes.RESPONSE_TIME],
+    ).toBeGreaterThanOrEqual(15);
+    expect(requestSpan.attributes[OpenTelemetryAttributes.RESULT]).toBe('miss');
+  });
+
+  it('should run the fetch function with the fetch span active', async () => {
+    cacher = createCacher();
+
+    await cacher.get('a');
+
+    expect(finishedSpan('upstream').parentSpanId).toBe(
+      finishedSpan('promise-cacher.fetch').spanContext().spanId,
+    );
+  });
+
+  it('should not create spans for hits', async () => {
+    cacher = createCacher();
+    await cacher.get('a');
+
+    await inRequest('request', () => cacher.get('a'));
+
+    const fetchSpans = exporter
+      .getFinishedSpans()
+      .filter(({ name }) => name === 'promise-cacher.fetch');
+    expect(fetchSpans).toHaveLength(1);
+    expect(finishedSpan('request').attributes).toMatchObject({
+      [OpenTelemetryAttributes.RESULT]: 'hit',
+    });
+  });
+
+  it('should link the spans of coalesced callers', async () => {
+    cacher = createCacher();
+
+    await Promise.all([
+      inRequest('first', () => cacher.get('a')),
+      inRequest('second', () => cacher.get('a')),
+      inRequest('third', () => cacher.get('a')),
+    ]);
+
+    const fetchSpan = finishedSpan('promise-cacher.fetch');
+    expect(fetchSpan.attributes[OpenTelemetryAttributes.COALESCED]).toBe(2);
+    expect(fetchSpan.links.map((link) => link.context.spanId)).toEqual([
+      finishedSpan('second').spanContext().spanId,
+      finishedSpan('third').spanContext().spanId,
+    ]);
+    expect(
+      finishedSpan('second').attributes[OpenTelemetryAttributes.RESULT],
+    ).toBe('coalesced');
+  });
+
+  it('should keep the requesting parent and links of queued fetches', async () => {
+    cacher = createCacher(1);
+
+    await Promise.all([
+      inRequest('first', () => cacher.get('a')),
+      inRequest('second', () => cacher.get('b')),
+      inRequest('third', () => cacher.get('b')),
+    ]);
+
+    const fetchSpan = exporter
+      .getFinishedSpans()
+      .find(
+        (span) =>
+          span.name === 'promise-cacher.fetch' &&
+          span.parentSpanId === finishedSpan('second').spanContext().spanId,
+      );
+    expect(fetchSpan).toBeDefined();
+    expect(fetchSpan.links.map((link) => link.context.spanId)).toEqual([
+      finishedSpan('third').spanContext().spanId,
+    ]);
+    expect(
+      fetchSpan.attributes[OpenTelemetryAttributes.QUEUED_TIME],
+    ).toBeGreaterThanOrEqual(15);
+  });
+
+  it('should record failed fetches', async () => {
+    cacher = createCacher();
+
+    await cacher.get('bad-1').catch(() => undefined);
+
+    const fetchSpan = finishedSpan('promise-cacher.fetch');
+    expect(fetchSpan.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'failed bad-1',
+    });
+    expect(fetchSpan.events.map(({ name }) => name)).toEqual(['exception']);
+  });
+
+  it('should trace background fetches without a request', async () => {
+    cacher = createCacher();
+
+    await cacher.warmUp(['a']);
+
+    const fetchSpan = finishedSpan('promise-cacher.fetch');
+    expect(fetchSpan.parentSpanId).toBeUndefined();
+    expect(
+      fetchSpan.attributes[OpenTelemetryAttributes.RESULT],
+    ).toBeUndefined();
+    expect(trace.getActiveSpan()).toBeUndefined();
+  });
+});
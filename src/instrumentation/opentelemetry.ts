@@ -0,0 +1,182 @@
+import {
+  Context,
+  context,
+  Link,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  Tracer,
+} from '@opentelemetry/api';
+import * as md5 from 'md5';
+import { CacheTask } from '../cache-task';
+import { FetchInstrumentation, RequestResultType } from '../define';
+
+/** Span attribute names set by OpenTelemetryInstrumentation */
+export const OpenTelemetryAttributes = {
+  /** MD5 hash of the cache key, on fetch spans */
+  KEY_HASH: 'promise_cacher.key_hash',
+  /** How the request was served, on fetch spans and on the spans of callers */
+  RESULT: 'promise_cacher.result',
+  /** Callers that joined the fetch while it was queued or running */
+  COALESCED: 'promise_cacher.coalesced',
+  /** Time the fetch waited in the queue, in milliseconds */
+  QUEUED_TIME: 'promise_cacher.queued_time_ms',
+  /** Time from fetch start to settlement, in milliseconds */
+  RESPONSE_TIME: 'promise_cacher.response_time_ms',
+  /** Calls made to the fetch function, retries included */
+  ATTEMPTS: 'promise_cacher.attempts',
+} as const;
+
+/**
+ * Options for OpenTelemetryInstrumentation
+ */
+export interface OpenTelemetryInstrumentationOptions {
+  /**
+   * Tracer creating the fetch spans
+   * @default trace.getTracer('promise-cacher')
+   */
+  tracer?: Tracer;
+  /**
+   * Name of the fetch spans
+   * @default 'promise-cacher.fetch'
+   */
+  spanName?: string;
+}
+
+/** Tracing state of a task, from its first request until its fetch settles */
+interface TracedTask {
+  /** The fetch span, undefined while the task is queued */
+  span?: Span;
+  /** Context of the request that created a queued task, parent of the fetch span */
+  origin?: Context;
+  /** Links to coalesced callers, collected while the task is queued */
+  links: Link[];
+  /** Number of coalesced callers */
+  coalesced: number;
+}
+
+/**
+ * Traces fetches with OpenTelemetry, one span per fetch.
+ *
+ * Set it as fetchingPolicy.instrumentation. A fetch span is a child of the request that
+ * missed, even when the fetch waited in the queue, and the fetch function runs with the
+ * span active so its own spans nest below it. Callers that join a queued or running fetch
+ * are linked to its span, and every caller's active span gets the result of its request.
+ *
+ * Only @opentelemetry/api is used; the application sets up the SDK and exporters.
+ */
+export class OpenTelemetryInstrumentation<OUTPUT = any, INPUT = any>
+  implements FetchInstrumentation<OUTPUT, INPUT>
+{
+  private readonly tracer: Tracer;
+
+  private readonly spanName: string;
+
+  /** Tracing state of tasks with an unsettled fetch */
+  private tasks = new WeakMap<CacheTask<OUTPUT, INPUT>, TracedTask>();
+
+  /**
+   * Creates a new instrumentation.
+   *
+   * @param options - Tracer and span name
+   */
+  public constructor(options: OpenTelemetryInstrumentationOptions = {}) {
+    this.tracer = options.tracer ?? trace.getTracer('promise-cacher');
+    this.spanName = options.spanName ?? 'promise-cacher.fetch';
+  }
+
+  public traceFetch(
+    task: CacheTask<OUTPUT, INPUT>,
+    run: () => Promise<OUTPUT>,
+  ): Promise<OUTPUT> {
+    const traced = this.traced(task);
+    const parent = traced.origin ?? context.active();
+    const span = this.tracer.startSpan(
+      this.spanName,
+      {
+        kind: SpanKind.INTERNAL,
+        links: traced.links,
+        attributes: {
+          [OpenTelemetryAttributes.KEY_HASH]: md5(task.taskKey ?? ''),
+          ...(traced.origin && { [OpenTelemetryAttributes.RESULT]: 'miss' }),
+        },
+      },
+      parent,
+    );
+    traced.span = span;
+    traced.links = [];
+    const startTime = Date.now();
+    const finish = (error?: Error) => {
+      this.tasks.delete(task);
+      span.setAttributes({
+        [OpenTelemetryAttributes.COALESCED]: traced.coalesced,
+        [OpenTelemetryAttributes.QUEUED_TIME]: startTime - task.createdAt,
+        [OpenTelemetryAttributes.RESPONSE_TIME]: Date.now() - startTime,
+        [OpenTelemetryAttributes.ATTEMPTS]: task.attempts,
+      });
+      if (error) {
+        span.recordException(error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+      }
+      span.end();
+    };
+    return context.with(trace.setSpan(parent, span), run).then(
+      (value) => {
+        finish();
+        return value;
+      },
+      (error: Error) => {
+        finish(error);
+        throw error;
+      },
+    );
+  }
+
+  public onRequest(
+    task: CacheTask<OUTPUT, INPUT>,
+    result: RequestResultType,
+  ): void {
+    const callerSpan = trace.getActiveSpan();
+    callerSpan?.setAttribute(
+      OpenTelemetryAttributes.RESULT,
+      result.toLowerCase(),
+    );
+    if (result === RequestResultType.MISS) {
+      const traced = this.traced(task);
+      if (traced.span) {
+        // The fetch started right away, within this request
+        traced.span.setAttribute(OpenTelemetryAttributes.RESULT, 'miss');
+      } else {
+        // A queued fetch starts later, in whatever context frees its slot
+        traced.origin = context.active();
+      }
+      return;
+    }
+    if (result !== RequestResultType.COALESCED) return;
+    const traced = this.traced(task);
+    traced.coalesced++;
+    if (!callerSpan) return;
+    const link: Link = { context: callerSpan.spanContext() };
+    if (traced.span) {
+      traced.span.addLink(link);
+    } else {
+      traced.links.push(link);
+    }
+  }
+
+  /**
+   * Gets the tracing state of a task, creating it on first use.
+   *
+   * @param task - The task
+   * @returns The tracing state
+   */
+  private traced(task: CacheTask<OUTPUT, INPUT>): TracedTask {
+    let traced = this.tasks.get(task);
+    if (!traced) {
+      traced = { links: [], coalesced: 0 };
+      this.tasks.set(task, traced);
+    }
+    return traced;
+  }
+}
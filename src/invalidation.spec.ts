@@ -0,0 +1,193 @@
+import { cacheEntry } from './cache-entry';
+import { CacherConfig, ExpirationStrategyType, FetchContext } from './define';
+import { PromiseCacher } from './promise-cacher';
+import { clearAfterEach } from './spec-helpers';
+import { MemoryStorageAdapter } from './storage/memory-storage-adapter';
+import { delay } from './util/delay';
+
+interface Query {
+  userId: number;
+  page: number;
+}
+
+describe('PromiseCacher - invalidation', () => {
+  let cacher: PromiseCacher<string, Query>;
+  let mockFetchFn: jest.Mock;
+
+  const clearLater = clearAfterEach();
+  const createCacher = (config?: CacherConfig) =>
+    clearLater(new PromiseCacher<string, Query>(mockFetchFn, config));
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async (query: Query) =>
+      cacheEntry(`user-${query.userId}-page-${query.page}`, {
+        tags: [`user:${query.userId}`],
+      }),
+    );
+    cacher = createCacher();
+  });
+
+  afterEach(() => {
+    cacher = undefined;
+  });
+
+  describe('invalidateTag', () => {
+    it('should delete every entry tagged by the fetch function', async () => {
+      await cacher.get({ userId: 1, page: 1 });
+      await cacher.get({ userId: 1, page: 2 });
+      await cacher.get({ userId: 2, page: 1 });
+
+      expect(cacher.invalidateTag('user:1')).toBe(2);
+
+      expect(cacher.has({ userId: 1, page: 1 })).toBe(false);
+      expect(cacher.has({ userId: 1, page: 2 })).toBe(false);
+      expect(cacher.has({ userId: 2, page: 1 })).toBe(true);
+    });
+
+    it('should delete entries tagged through set()', () => {
+      cacher.set({ userId: 3, page: 1 }, 'manual', { tags: ['admin'] });
+      cacher.set({ userId: 4, page: 1 }, 'manual');
+
+      expect(cacher.invalidateTag('admin')).toBe(1);
+      expect(cacher.cacheCount).toBe(1);
+    });
+
+    it('should keep tags given to set() once the entry is refreshed', async () => {
+      cacher = createCacher({
+        cachePolicy: {
+          ttlMs: 20,
+          maxStaleMs: 1000,
+          expirationStrategy: ExpirationStrategyType.STALE_WHILE_REVALIDATE,
+        },
+      });
+      cacher.set({ userId: 3, page: 1 }, 'manual', { tags: ['admin'] });
+      await delay(30);
+
+      expect(await cacher.get({ userId: 3, page: 1 })).toBe('manual');
+      await delay(10);
+      expect(await cacher.get({ userId: 3, page: 1 })).toBe('user-3-page-1');
+
+      expect(cacher.getTask({ userId: 3, page: 1 }).tags).toEqual([
+        'admin',
+        'user:3',
+      ]);
+      expect(cacher.invalidateTag('admin')).toBe(1);
+      expect(cacher.has({ userId: 3, page: 1 })).toBe(false);
+    });
+
+    it('should return 0 for an unknown tag', async () => {
+      await cacher.get({ userId: 1, page: 1 });
+
+      expect(cacher.invalidateTag('unknown')).toBe(0);
+      expect(cacher.cacheCount).toBe(1);
+    });
+
+    it('should remove the storage copies of invalidated entries', async () => {
+      const storage = new MemoryStorageAdapter<string, Query>();
+      cacher = createCacher({
+        storagePolicy: { adapter: storage },
+      });
+      await cacher.get({ userId: 1, page: 1 });
+      await delay(10);
+      expect(storage.size).toBe(1);
+
+      cacher.invalidateTag('user:1');
+      await delay(10);
+
+      expect(storage.size).toBe(0);
+    });
+
+    it('should remove the storage copies of entries evicted from memory', async () => {
+      const storage = new MemoryStorageAdapter<string, Query>();
+      cacher = createCacher({
+        storagePolicy: { adapter: storage },
+        freeUpMemoryPolicy: { maxEntries: 1 },
+      });
+      await cacher.get({ userId: 1, page: 1 });
+      await cacher.get({ userId: 2, page: 1 });
+      await delay(10);
+      expect(cacher.has({ userId: 1, page: 1 })).toBe(false);
+      expect(storage.size).toBe(2);
+
+      expect(cacher.invalidateTag('user:1')).toBe(0);
+      await delay(10);
+
+      expect(storage.size).toBe(1);
+      await cacher.get({ userId: 1, page: 1 });
+      expect(mockFetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep the tags of entries restored from storage', async () => {
+      const storage = new MemoryStorageAdapter<string, Query>();
+      cacher = createCacher({
+        storagePolicy: { adapter: storage },
+      });
+      await cacher.get({ userId: 1, page: 1 });
+      await delay(10);
+      cacher.clear();
+
+      await cacher.get({ userId: 1, page: 1 });
+
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+      expect(cacher.invalidateTag('user:1')).toBe(1);
+    });
+
+    it('should emit delete events for invalidated entries', async () => {
+      const listener = jest.fn();
+      cacher.on('delete', listener);
+      await cacher.get({ userId: 1, page: 1 });
+
+      cacher.invalidateTag('user:1');
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ key: { userId: 1, page: 1 } }),
+      );
+    });
+  });
+
+  describe('invalidateWhere', () => {
+    it('should delete every entry whose input matches', async () => {
+      await cacher.get({ userId: 1, page: 1 });
+      await cacher.get({ userId: 2, page: 1 });
+      await cacher.get({ userId: 2, page: 2 });
+
+      expect(cacher.invalidateWhere((query) => query.userId === 2)).toBe(2);
+
+      expect(cacher.keys()).toEqual([{ userId: 1, page: 1 }]);
+    });
+
+    it('should abort matching in-flight fetches', async () => {
+      mockFetchFn.mockImplementationOnce(
+        (query: Query, { signal }: FetchContext) =>
+          new Promise((resolve, reject) => {
+            signal.addEventListener('abort', () =>
+              reject(signal.reason as Error),
+            );
+          }),
+      );
+      const promise = cacher.get({ userId: 1, page: 1 });
+
+      cacher.invalidateWhere(() => true);
+
+      await expect(promise).rejects.toThrow('deleted');
+    });
+  });
+
+  describe('invalidatePrefix', () => {
+    it('should delete entries whose custom cache key starts with the prefix', async () => {
+      cacher = createCacher({
+        cachePolicy: {
+          cacheKeyTransform: (query: Query) =>
+            `user:${query.userId}:page:${query.page}`,
+        },
+      });
+      await cacher.get({ userId: 1, page: 1 });
+      await cacher.get({ userId: 1, page: 2 });
+      await cacher.get({ userId: 12, page: 1 });
+
+      expect(cacher.invalidatePrefix('user:1:')).toBe(2);
+
+      expect(cacher.keys()).toEqual([{ userId: 12, page: 1 }]);
+    });
+  });
+});
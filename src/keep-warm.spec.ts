@@ -0,0 +1,125 @@
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - keepWarm', () => {
+  let cacher: PromiseCacher<string, string>;
+  let version: number;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    version = 0;
+    mockFetchFn = jest.fn(async (key: string) => `${key}-${++version}`);
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  it('should fetch the keys right away and refresh them on schedule', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+
+    cacher.keepWarm(['flags'], 100);
+    await delay(5);
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    expect(await cacher.get('flags')).toBe('flags-1');
+
+    await delay(120);
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+    expect(await cacher.get('flags')).toBe('flags-2');
+  });
+
+  it('should keep serving the current value while refreshing', async () => {
+    cacher = new PromiseCacher(
+      jest.fn(async (key: string) => {
+        const value = `${key}-${++version}`;
+        if (version > 1) {
+          await delay(30);
+        }
+        return value;
+      }),
+    );
+
+    cacher.keepWarm(['flags'], 20);
+    await delay(25);
+
+    const startTime = Date.now();
+    expect(await cacher.get('flags')).toBe('flags-1');
+    expect(Date.now() - startTime).toBeLessThan(10);
+  });
+
+  it('should not count refreshes as requests or reset usage', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+    cacher.keepWarm(['flags'], 20);
+    await delay(5);
+    await cacher.get('flags');
+    await cacher.get('flags');
+
+    await delay(25);
+
+    const task = cacher.getTask('flags');
+    expect(task.usedCount).toBe(2);
+    expect(cacher.statistics().efficiency.totalRequests).toBe(2);
+  });
+
+  it('should respect the concurrency limit', async () => {
+    const slowFetchFn = jest.fn(async (key: string) => {
+      await delay(30);
+      return key;
+    });
+    cacher = new PromiseCacher(slowFetchFn, {
+      fetchingPolicy: { concurrency: 1 },
+    });
+
+    cacher.keepWarm(['a', 'b'], 1000);
+    await delay(10);
+
+    expect(slowFetchFn).toHaveBeenCalledTimes(1);
+    await delay(40);
+    expect(slowFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should exempt pinned keys from eviction', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      freeUpMemoryPolicy: { maxEntries: 1 },
+    });
+
+    cacher.keepWarm(['flags'], 1000, { pinned: true });
+    await delay(5);
+    await cacher.get('other');
+
+    expect(cacher.has('flags')).toBe(true);
+    expect(cacher.has('other')).toBe(false);
+  });
+
+  it('should let unpinned keys be evicted', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      freeUpMemoryPolicy: { maxEntries: 1 },
+    });
+
+    cacher.keepWarm(['flags'], 1000);
+    await delay(5);
+    await cacher.get('other');
+
+    expect(cacher.has('flags')).toBe(false);
+  });
+
+  it('should stop refreshing after unkeepWarm', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+
+    cacher.keepWarm(['a', 'b'], 50);
+    await delay(5);
+    cacher.unkeepWarm(['a']);
+    await delay(70);
+
+    expect(mockFetchFn.mock.calls.map(([key]) => key).sort()).toEqual([
+      'a',
+      'b',
+      'b',
+    ]);
+
+    cacher.unkeepWarm();
+    await delay(60);
+    expect(mockFetchFn).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,121 @@
+import { CacheTask } from './cache-task';
+import { CacherConfig } from './define';
+import { PromiseCacher } from './promise-cacher';
+import { clearAfterEach } from './spec-helpers';
+import { delay } from './util/delay';
+import { sizeof } from './util/sizeof';
+
+describe('PromiseCacher - incremental bookkeeping', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  const clearLater = clearAfterEach();
+  const createCacher = (config?: CacherConfig) =>
+    clearLater(new PromiseCacher<string, string>(mockFetchFn, config));
+
+  const sumOfUsedBytes = () =>
+    (cacher as any).tasks.reduce(
+      (total: number, task: CacheTask) => total + task.usedBytes,
+      0,
+    );
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async (key: string) => `value-${key}`);
+    cacher = createCacher();
+  });
+
+  afterEach(() => {
+    cacher = undefined;
+  });
+
+  it('should not scan every task on set() and get()', async () => {
+    const tasksGetter = jest.spyOn(cacher as any, 'tasks', 'get');
+
+    for (let i = 0; i < 20; i++) {
+      cacher.set(`key-${i}`, `value-${i}`);
+    }
+    await cacher.get('key-0');
+    await cacher.get('missing');
+
+    expect(tasksGetter).not.toHaveBeenCalled();
+  });
+
+  it('should track memory usage as entries settle, change and go', async () => {
+    await cacher.get('a');
+    cacher.set('b', 'manual');
+    await delay(0);
+    expect(cacher.statistics().memory.currentUsageBytes).toBe(
+      sizeof('value-a') + sizeof('manual'),
+    );
+
+    cacher.set('b', 'replaced value');
+    cacher.delete('a');
+    await delay(0);
+    expect(cacher.statistics().memory.currentUsageBytes).toBe(
+      sizeof('replaced value'),
+    );
+    expect(cacher.statistics().memory.currentUsageBytes).toBe(sumOfUsedBytes());
+
+    cacher.clear();
+    expect(cacher.statistics().memory.currentUsageBytes).toBe(0);
+  });
+
+  it('should not count values of replaced in-flight tasks', async () => {
+    mockFetchFn.mockImplementation(async (key: string) => {
+      await delay(10);
+      return `value-${key}`;
+    });
+
+    const first = cacher.get('a');
+    const second = cacher.get('a', true);
+    await Promise.all([first, second]);
+    await delay(0);
+
+    expect(cacher.statistics().memory.currentUsageBytes).toBe(
+      sizeof('value-a'),
+    );
+  });
+
+  it('should count queued requests and free concurrency slots as fetches settle', async () => {
+    mockFetchFn.mockImplementation(async (key: string) => {
+      await delay(10);
+      return `value-${key}`;
+    });
+    cacher = createCacher({
+      fetchingPolicy: { concurrency: 1 },
+    });
+
+    const pending = Promise.all([
+      cacher.get('a'),
+      cacher.get('b'),
+      cacher.get('c'),
+    ]);
+
+    expect(cacher.statistics().operations.queuedRequests).toBe(2);
+    await expect(pending).resolves.toEqual(['value-a', 'value-b', 'value-c']);
+    expect(cacher.statistics().operations.queuedRequests).toBe(0);
+  });
+
+  it('should not hold a concurrency slot for deleted fetches', async () => {
+    mockFetchFn.mockImplementation(
+      (key: string) =>
+        new Promise((resolve) => setTimeout(() => resolve(`value-${key}`), 50)),
+    );
+    cacher = createCacher({
+      fetchingPolicy: { concurrency: 1 },
+    });
+
+    cacher.get('a').catch(() => undefined);
+    const queued = cacher.get('b');
+    cacher.delete('a');
+    const next = cacher.get('c');
+
+    // "b" takes the slot of the deleted fetch while it is still running
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+    expect(mockFetchFn).toHaveBeenLastCalledWith('b', expect.anything());
+    await expect(Promise.all([queued, next])).resolves.toEqual([
+      'value-b',
+      'value-c',
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { EvictionPolicyType, EvictionReasonType } from './define';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+import { sizeof } from './util/sizeof';
+
+describe('PromiseCacher - synchronous limit enforcement', () => {
+  const value = 'x'.repeat(100);
+  const entryBytes = sizeof(value);
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async () => value);
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  it('should keep memory usage under the limit without waiting for a flush', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      cachePolicy: { flushIntervalMs: 60 * 1000 },
+      freeUpMemoryPolicy: {
+        maxMemoryBytes: entryBytes * 3,
+        minMemoryBytes: entryBytes * 2,
+      },
+    });
+
+    for (let i = 0; i < 10; i++) {
+      await cacher.get(`key-${i}`);
+      expect(cacher.statistics().memory.currentUsageBytes).toBeLessThanOrEqual(
+        entryBytes * 3,
+      );
+    }
+  });
+
+  it('should report the overshoot in statistics', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      freeUpMemoryPolicy: {
+        maxMemoryBytes: entryBytes * 1.5,
+        minMemoryBytes: entryBytes,
+      },
+    });
+
+    await cacher.get('a');
+    await cacher.get('b');
+
+    const { memory } = cacher.statistics();
+    expect(memory.cleanupCount).toBe(1);
+    expect(memory.peakOvershootBytes).toBe(entryBytes / 2);
+    expect(memory.memoryReclaimedBytes).toBe(entryBytes);
+  });
+
+  it('should spare the entry that just settled when evicting others is enough', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      freeUpMemoryPolicy: {
+        evictionPolicy: EvictionPolicyType.LRU,
+        maxMemoryBytes: entryBytes * 1.5,
+        minMemoryBytes: entryBytes / 2,
+      },
+    });
+
+    await cacher.get('a');
+    await cacher.get('b');
+
+    expect(cacher.has('a')).toBe(false);
+    expect(cacher.has('b')).toBe(true);
+  });
+
+  it('should evict the settled entry when it alone exceeds the limit', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      freeUpMemoryPolicy: { maxMemoryBytes: entryBytes / 2 },
+    });
+    const evictListener = jest.fn();
+    cacher.on('evict', evictListener);
+
+    await expect(cacher.get('a')).resolves.toBe(value);
+
+    expect(cacher.cacheCount).toBe(0);
+    expect(evictListener).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'a', reason: EvictionReasonType.MEMORY }),
+    );
+  });
+
+  it('should enforce maxEntries once in-flight entries settle', async () => {
+    mockFetchFn.mockImplementation(async () => {
+      await delay(20);
+      return value;
+    });
+    cacher = new PromiseCacher(mockFetchFn, {
+      freeUpMemoryPolicy: {
+        evictionPolicy: EvictionPolicyType.LRU,
+        maxEntries: 1,
+      },
+    });
+
+    await Promise.all([cacher.get('a'), cacher.get('b'), cacher.get('c')]);
+
+    expect(cacher.cacheCount).toBe(1);
+    expect(cacher.statistics().memory.peakEntryOvershoot).toBe(2);
+  });
+});
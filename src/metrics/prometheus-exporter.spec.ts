@@ -0,0 +1,159 @@
+import { PromiseCacher } from '../promise-cacher';
+import { delay } from '../util/delay';
+import {
+  PrometheusContentType,
+  PrometheusExporter,
+} from './prometheus-exporter';
+
+describe('PrometheusExporter', () => {
+  let cacher: PromiseCacher<string, string>;
+  let exporter: PrometheusExporter;
+
+  beforeEach(() => {
+    cacher = new PromiseCacher(async (key: string) => {
+      await delay(20);
+      return `value-${key}`;
+    });
+    exporter = new PrometheusExporter({ latencyBuckets: [0.001, 1] });
+  });
+
+  afterEach(() => {
+    cacher.clear();
+  });
+
+  /**
+   * Finds the value of a sample line in the rendered metrics.
+   */
+  const sample = (metrics: string, series: string): number | undefined => {
+    const line = metrics
+      .split('\n')
+      .find((candidate) => candidate.startsWith(`${series} `));
+    return line === undefined ? undefined : Number(line.split(' ')[1]);
+  };
+
+  it('should render nothing without registered cachers', () => {
+    expect(exporter.metrics()).toBe('');
+  });
+
+  it('should render counters and gauges with a cacher label', async () => {
+    exporter.register('users', cacher);
+    await cacher.get('a');
+    await cacher.get('a');
+    await cacher.get('b');
+
+    const metrics = exporter.metrics();
+
+    expect(metrics).toContain('# TYPE promise_cacher_requests_total counter');
+    expect(metrics).toContain('# TYPE promise_cacher_memory_bytes gauge');
+    expect(
+      sample(metrics, 'promise_cacher_requests_total{cacher="users"}'),
+    ).toBe(3);
+    expect(sample(metrics, 'promise_cacher_hits_total{cacher="users"}')).toBe(
+      1,
+    );
+    expect(sample(metrics, 'promise_cacher_misses_total{cacher="users"}')).toBe(
+      2,
+    );
+    expect(sample(metrics, 'promise_cacher_entries{cacher="users"}')).toBe(2);
+    expect(
+      sample(metrics, 'promise_cacher_memory_bytes{cacher="users"}'),
+    ).toBeGreaterThan(0);
+  });
+
+  it('should render a cumulative fetch duration histogram', async () => {
+    exporter.register('users', cacher);
+    await cacher.get('a');
+    await cacher.get('b');
+
+    const metrics = exporter.metrics();
+
+    expect(metrics).toContain(
+      '# TYPE promise_cacher_fetch_duration_seconds histogram',
+    );
+    const bucket = (le: string) =>
+      sample(
+        metrics,
+        `promise_cacher_fetch_duration_seconds_bucket{cacher="users",le="${le}"}`,
+      );
+    expect(bucket('0.001')).toBe(0);
+    expect(bucket('1')).toBe(2);
+    expect(bucket('+Inf')).toBe(2);
+    expect(
+      sample(
+        metrics,
+        'promise_cacher_fetch_duration_seconds_count{cacher="users"}',
+      ),
+    ).toBe(2);
+    expect(
+      sample(
+        metrics,
+        'promise_cacher_fetch_duration_seconds_sum{cacher="users"}',
+      ),
+    ).toBeGreaterThan(0.03);
+  });
+
+  it('should count evictions by reason', async () => {
+    exporter.register('users', cacher);
+    await cacher.get('a');
+
+    cacher.delete('a');
+
+    expect(
+      sample(
+        exporter.metrics(),
+        'promise_cacher_evictions_total{cacher="users",reason="manual"}',
+      ),
+    ).toBe(1);
+  });
+
+  it('should group the samples of several cachers by metric', async () => {
+    const other = new PromiseCacher(async (key: string) => key);
+    exporter.register('users', cacher);
+    exporter.register('orders', other);
+    await other.get('a');
+
+    const metrics = exporter.metrics();
+
+    expect(metrics.match(/# TYPE promise_cacher_requests_total/g)).toHaveLength(
+      1,
+    );
+    expect(
+      sample(metrics, 'promise_cacher_requests_total{cacher="users"}'),
+    ).toBe(0);
+    expect(
+      sample(metrics, 'promise_cacher_requests_total{cacher="orders"}'),
+    ).toBe(1);
+    other.clear();
+  });
+
+  it('should stop exporting and listening after unregister', async () => {
+    exporter.register('users', cacher);
+    exporter.unregister('users');
+
+    await cacher.get('a');
+
+    expect(exporter.metrics()).toBe('');
+    expect(cacher.hasListeners('fetchSuccess')).toBe(false);
+  });
+
+  it('should escape label values and apply the prefix', () => {
+    exporter = new PrometheusExporter({ prefix: 'app_cache' });
+    exporter.register('a "quoted"\\name', cacher);
+
+    expect(exporter.metrics()).toContain(
+      'app_cache_requests_total{cacher="a \\"quoted\\"\\\\name"} 0',
+    );
+  });
+
+  it('should serve the metrics through the request handler', () => {
+    exporter.register('users', cacher);
+    const response = { writeHead: jest.fn(), end: jest.fn() };
+
+    exporter.handler()({ method: 'GET' } as any, response as any);
+
+    expect(response.writeHead).toHaveBeenCalledWith(200, {
+      'Content-Type': PrometheusContentType,
+    });
+    expect(response.end).toHaveBeenCalledWith(exporter.metrics());
+  });
+});
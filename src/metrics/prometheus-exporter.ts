@@ -0,0 +1,310 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { DefaultLatencyBucketsSeconds } from '../constants';
+import { EvictionReasonType } from '../define';
+import { PromiseCacher } from '../promise-cacher';
+
+/** Content type of the Prometheus text exposition format */
+export const PrometheusContentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Options for PrometheusExporter
+ */
+export interface PrometheusExporterOptions {
+  /**
+   * Prefix of every metric name
+   * @default 'promise_cacher'
+   */
+  prefix?: string;
+  /**
+   * Upper bounds of the fetch duration histogram buckets, in seconds
+   * @default 5ms up to 10s
+   */
+  latencyBuckets?: number[];
+}
+
+/** A registered cacher with the counts collected from its events */
+interface RegisteredCacher {
+  cacher: PromiseCacher;
+  /** Cumulative count per histogram bucket, the +Inf bucket last */
+  latencyBucketCounts: number[];
+  /** Sum of the observed fetch durations in seconds */
+  latencySum: number;
+  /** Removes the event listeners */
+  unsubscribe: () => void;
+}
+
+/** A sample of a metric family */
+interface Sample {
+  labels: Record<string, string>;
+  value: number;
+  /** Appended to the family name, e.g. _bucket */
+  suffix?: string;
+}
+
+/**
+ * Renders the statistics of named cachers in the Prometheus text exposition format.
+ *
+ * Counters and gauges are read from statistics() on every scrape. Fetch durations
+ * are collected from cacher events from registration on, as a histogram.
+ * Every sample carries a cacher label.
+ */
+export class PrometheusExporter {
+  /** Registered cachers by name */
+  private cachers = new Map<string, RegisteredCacher>();
+
+  private readonly prefix: string;
+
+  private readonly latencyBuckets: number[];
+
+  /**
+   * Creates a new exporter.
+   *
+   * @param options - Metric name prefix and histogram buckets
+   */
+  public constructor(options: PrometheusExporterOptions = {}) {
+    this.prefix = options.prefix ?? 'promise_cacher';
+    this.latencyBuckets = (
+      options.latencyBuckets ?? DefaultLatencyBucketsSeconds
+    )
+      .slice()
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Starts exporting a cacher. Registering a name again replaces the cacher.
+   *
+   * @param name - Value of the cacher label
+   * @param cacher - The cacher to export
+   */
+  public register(name: string, cacher: PromiseCacher): void {
+    this.unregister(name);
+    const registered: RegisteredCacher = {
+      cacher,
+      latencyBucketCounts: new Array(this.latencyBuckets.length + 1).fill(0),
+      latencySum: 0,
+      unsubscribe: undefined,
+    };
+    const observe = ({ timings }: { timings: { responseTime?: number } }) => {
+      if (timings.responseTime === undefined) return;
+      const seconds = timings.responseTime / 1000;
+      registered.latencySum += seconds;
+      for (let i = 0; i < this.latencyBuckets.length; i++) {
+        if (seconds <= this.latencyBuckets[i]) {
+          registered.latencyBucketCounts[i]++;
+        }
+      }
+      registered.latencyBucketCounts[this.latencyBuckets.length]++;
+    };
+    const listeners = [
+      cacher.on('fetchSuccess', observe),
+      cacher.on('fetchError', observe),
+    ];
+    registered.unsubscribe = () => listeners.forEach((off) => off());
+    this.cachers.set(name, registered);
+  }
+
+  /**
+   * Stops exporting a cacher.
+   *
+   * @param name - The name the cacher was registered under
+   */
+  public unregister(name: string): void {
+    this.cachers.get(name)?.unsubscribe();
+    this.cachers.delete(name);
+  }
+
+  /**
+   * Renders the metrics of every registered cacher.
+   *
+   * @returns The metrics in the Prometheus text exposition format
+   */
+  public metrics(): string {
+    const counters: Record<string, [string, Sample[]]> = {};
+    const gauges: Record<string, [string, Sample[]]> = {};
+    const add = (
+      families: Record<string, [string, Sample[]]>,
+      name: string,
+      help: string,
+      sample: Sample,
+    ) => {
+      families[name] = families[name] ?? [help, []];
+      families[name][1].push(sample);
+    };
+    const histogramSamples: Sample[] = [];
+
+    this.cachers.forEach((registered, cacherName) => {
+      const stats = registered.cacher.statistics();
+      const labels = { cacher: cacherName };
+      const counter = (name: string, help: string, value: number) =>
+        add(counters, name, help, { labels, value });
+      const gauge = (name: string, help: string, value: number) =>
+        add(gauges, name, help, { labels, value });
+
+      counter(
+        'requests_total',
+        'Requests served by the cacher',
+        stats.efficiency.totalRequests,
+      );
+      counter(
+        'hits_total',
+        'Requests served from memory',
+        stats.efficiency.hits,
+      );
+      counter(
+        'stale_hits_total',
+        'Hits served with a stale value while revalidating',
+        stats.efficiency.staleHits,
+      );
+      counter(
+        'misses_total',
+        'Requests that required a fetch',
+        stats.efficiency.misses,
+      );
+      counter(
+        'storage_hits_total',
+        'Misses served from the storage adapter',
+        stats.efficiency.storageHits,
+      );
+      counter(
+        'fetch_attempts_total',
+        'Calls made to the fetch function, retries included',
+        stats.operations.fetchAttempts,
+      );
+      counter(
+        'retries_total',
+        'Calls that retried a failed fetch',
+        stats.operations.retries,
+      );
+      counter(
+        'rejected_requests_total',
+        'Fetches rejected by the queue limits',
+        stats.operations.rejectedRequests,
+      );
+      counter(
+        'timeouts_total',
+        'Fetches that timed out',
+        stats.health.timeouts,
+      );
+      Object.keys(stats.memory.evictions).forEach((reason) =>
+        add(counters, 'evictions_total', 'Entries evicted, by reason', {
+          labels: { ...labels, reason: reason.toLowerCase() },
+          value: stats.memory.evictions[reason as EvictionReasonType],
+        }),
+      );
+
+      gauge('entries', 'Entries held', stats.inventory.totalItems);
+      gauge(
+        'memory_bytes',
+        'Memory used by the held values',
+        stats.memory.currentUsageBytes,
+      );
+      gauge(
+        'memory_limit_bytes',
+        'Configured memory limit',
+        stats.memory.limitBytes,
+      );
+      gauge(
+        'queued_requests',
+        'Fetches waiting in the queue',
+        stats.operations.queuedRequests,
+      );
+      gauge(
+        'active_requests',
+        'Fetches currently running',
+        stats.operations.activeRequests,
+      );
+
+      this.latencyBuckets.forEach((bound, i) =>
+        histogramSamples.push({
+          suffix: '_bucket',
+          labels: { ...labels, le: formatNumber(bound) },
+          value: registered.latencyBucketCounts[i],
+        }),
+      );
+      const count = registered.latencyBucketCounts[this.latencyBuckets.length];
+      histogramSamples.push(
+        { suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: count },
+        { suffix: '_sum', labels, value: registered.latencySum },
+        { suffix: '_count', labels, value: count },
+      );
+    });
+
+    const lines: string[] = [];
+    const render = (
+      name: string,
+      type: string,
+      help: string,
+      samples: Sample[],
+    ) => {
+      const fullName = `${this.prefix}_${name}`;
+      lines.push(`# HELP ${fullName} ${help}`);
+      lines.push(`# TYPE ${fullName} ${type}`);
+      samples.forEach(({ suffix = '', labels, value }) =>
+        lines.push(
+          `${fullName}${suffix}${formatLabels(labels)} ${formatNumber(value)}`,
+        ),
+      );
+    };
+    Object.keys(counters).forEach((name) =>
+      render(name, 'counter', counters[name][0], counters[name][1]),
+    );
+    Object.keys(gauges).forEach((name) =>
+      render(name, 'gauge', gauges[name][0], gauges[name][1]),
+    );
+    if (histogramSamples.length > 0) {
+      render(
+        'fetch_duration_seconds',
+        'histogram',
+        'Duration of fetches, from start to settlement',
+        histogramSamples,
+      );
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Creates a request handler serving the metrics, to mount on an http.Server
+   * or under a route of an existing server.
+   *
+   * @returns A request listener answering every request with the metrics
+   */
+  public handler(): (
+    request: IncomingMessage,
+    response: ServerResponse,
+  ) => void {
+    return (request, response) => {
+      response.writeHead(200, { 'Content-Type': PrometheusContentType });
+      response.end(request.method === 'HEAD' ? undefined : this.metrics());
+    };
+  }
+}
+
+/**
+ * Formats a label set, escaping backslashes, quotes and line breaks in the values.
+ *
+ * @param labels - Label names and values
+ * @returns The label set in braces, empty when there are no labels
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.keys(labels).map((name) => {
+    const value = labels[name]
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n');
+    return `${name}="${value}"`;
+  });
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Formats a sample value as Prometheus expects it.
+ *
+ * @param value - The value
+ * @returns The value, with NaN and infinities spelled out
+ */
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
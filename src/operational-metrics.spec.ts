@@ -0,0 +1,153 @@
+import { EvictionReasonType } from './define';
+import { QueueFullError, QueueTimeoutError, TimeoutError } from './errors';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - operational metrics', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async (key: string) => {
+      await delay(key.startsWith('slow') ? 100 : 20);
+      return `value-${key}`;
+    });
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  describe('concurrency', () => {
+    it('should report running fetches and the peak reached', async () => {
+      cacher = new PromiseCacher(mockFetchFn);
+
+      const fetches = Promise.all([
+        cacher.get('a'),
+        cacher.get('b'),
+        cacher.get('c'),
+      ]);
+      expect(cacher.statistics().operations.activeRequests).toBe(3);
+
+      await fetches;
+      await cacher.get('d');
+
+      const { operations } = cacher.statistics();
+      expect(operations.activeRequests).toBe(0);
+      expect(operations.peakConcurrency).toBe(3);
+    });
+
+    it('should not count queued fetches as running', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 2 },
+      });
+
+      const fetches = Promise.all(
+        ['a', 'b', 'c'].map((key) => cacher.get(key)),
+      );
+      const { operations } = cacher.statistics();
+      expect(operations.activeRequests).toBe(2);
+      expect(operations.queuedRequests).toBe(1);
+
+      await fetches;
+      expect(cacher.statistics().operations.peakConcurrency).toBe(2);
+    });
+
+    it('should free the slot of a deleted fetch', () => {
+      cacher = new PromiseCacher(mockFetchFn);
+      cacher.get('a').catch(() => undefined);
+
+      cacher.delete('a');
+
+      expect(cacher.statistics().operations.activeRequests).toBe(0);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should reject with a TimeoutError and count it', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { timeoutMs: 30 },
+      });
+
+      const error = await cacher.get('slow-1').catch((reason: Error) => reason);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).timeoutMs).toBe(30);
+      expect(cacher.statistics().health.timeouts).toBe(1);
+    });
+
+    it('should not count fetches settling in time', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { timeoutMs: 60 },
+      });
+
+      await cacher.get('a');
+      await delay(70);
+
+      expect(cacher.statistics().health.timeouts).toBe(0);
+    });
+
+    it('should count queue timeouts as rejections, not TimeoutErrors', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1, maxQueueWaitMs: 20 },
+      });
+      cacher.get('slow-1').catch(() => undefined);
+
+      const error = await cacher.get('slow-2').catch((reason: Error) => reason);
+
+      expect(error).toBeInstanceOf(QueueTimeoutError);
+      expect(error).not.toBeInstanceOf(TimeoutError);
+      const stats = cacher.statistics();
+      expect(stats.operations.rejectedRequests).toBe(1);
+      expect(stats.health.timeouts).toBe(0);
+    });
+  });
+
+  it('should count requests rejected by a full queue', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { concurrency: 1, maxQueueLength: 1 },
+    });
+    cacher.get('a').catch(() => undefined);
+    cacher.get('b').catch(() => undefined);
+
+    const error = await cacher.get('c').catch((reason: Error) => reason);
+
+    expect(error).toBeInstanceOf(QueueFullError);
+    expect(cacher.statistics().operations.rejectedRequests).toBe(1);
+  });
+
+  describe('evictions', () => {
+    it('should count evictions by reason', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        cachePolicy: { ttlMs: 30 },
+        freeUpMemoryPolicy: { maxEntries: 1 },
+      });
+      await cacher.get('a');
+      await cacher.get('b');
+      cacher.delete('b');
+      await cacher.get('c');
+      await delay(40);
+      await cacher.get('c');
+
+      expect(cacher.statistics().memory.evictions).toEqual({
+        [EvictionReasonType.MEMORY]: 0,
+        [EvictionReasonType.CAPACITY]: 1,
+        [EvictionReasonType.TTL]: 1,
+        [EvictionReasonType.MANUAL]: 1,
+      });
+    });
+
+    it('should start over after clear', async () => {
+      cacher = new PromiseCacher(mockFetchFn);
+      await cacher.get('a');
+      cacher.delete('a');
+
+      cacher.clear();
+
+      expect(
+        cacher.statistics().memory.evictions[EvictionReasonType.MANUAL],
+      ).toBe(0);
+    });
+  });
+});
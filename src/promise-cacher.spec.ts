@@ -138,7 +138,9 @@ describe('PromiseCacher', () => {
       const result = await cacher.get('test-key');
 
       expect(result).toBe('test-value');
-      expect(mockFetchFn).toHaveBeenCalledWith('test-key');
+      expect(mockFetchFn).toHaveBeenCalledWith('test-key', {
+        signal: expect.any(AbortSignal),
+      });
       expect(mockFetchFn).toHaveBeenCalledTimes(1);
       expect(cacher.has('test-key')).toBe(true);
     });
@@ -422,6 +424,32 @@ describe('PromiseCacher', () => {
       expect(stats.inventory.minItemUsage).toBe(0);
       expect(stats.inventory.avgItemUsage).toBe(0);
       expect(stats.memory.currentUsageBytes).toBe(0);
+      expect(stats.performance.hitLatency.p99).toBe(0);
+      expect(stats.performance.missLatency.windows.last1m.count).toBe(0);
+    });
+
+    it('should report latency percentiles for hits and misses', async () => {
+      mockFetchFn.mockImplementation(async () => {
+        await delay(30);
+        return 'test-value';
+      });
+
+      await cacher.get('key1');
+      await cacher.get('key2');
+      await cacher.get('key1');
+      await cacher.get('bad').catch(() => undefined);
+
+      const { performance } = cacher.statistics();
+
+      expect(performance.missLatency.count).toBe(3);
+      expect(performance.missLatency.p50).toBeGreaterThanOrEqual(25);
+      expect(performance.missLatency.windows.last1m.count).toBe(3);
+      expect(performance.missLatency.windows.last15m.p99).toBe(
+        performance.missLatency.p99,
+      );
+      expect(performance.hitLatency.count).toBe(1);
+      expect(performance.hitLatency.p999).toBeLessThan(25);
+      expect(performance.slowestResponse).toBeGreaterThanOrEqual(25);
     });
   });
 
@@ -1,23 +1,87 @@
 import { CacheTask } from './cache-task';
+import { CacheEntry } from './cache-entry';
 import {
+  DefaultBatchWindowMs,
+  DefaultCircuitConsecutiveFailures,
+  DefaultCircuitCoolDownMs,
+  DefaultCircuitMinimumCalls,
+  DefaultCircuitWindowSize,
   DefaultConcurrency,
   DefaultFlushIntervalMs,
   DefaultMaxMemoryBytes,
+  DefaultPriorityAgingMs,
+  DefaultRateLimitIntervalMs,
+  DefaultRetryBaseDelayMs,
+  DefaultRetryMaxAttempts,
+  DefaultRetryMaxDelayMs,
+  DefaultTopKeysLimit,
   DefaultTtlMs,
+  DefaultWarmUpConcurrency,
+  LatencyRelativeAccuracy,
+  LatencyWindowSlotMs,
+  LatencyWindowsMs,
   MinFlushIntervalMs,
+  TopKeysTrackedCount,
 } from './constants';
 import {
   CacherConfig,
+  CacheSnapshot,
+  CacheSnapshotEntry,
+  CacheStorageAdapter,
+  CacheStorageRecord,
+  CacherEvents,
+  CacheTaskOptions,
   CacheTaskStatusType,
   CalcCacheScoreFn,
+  CircuitStateType,
   ErrorTaskPolicyType,
+  EvictionPolicy,
+  EvictionReasonType,
   ExpirationStrategyType,
   FetchByKeyMethod,
+  FetchContext,
+  FetchInstrumentation,
+  GetOptions,
+  KeepWarmOptions,
+  LatencyPercentiles,
+  LatencyStatistics,
+  SetOptions,
+  TopKey,
+  TopKeysOptions,
+  WarmUpOptions,
+  WarmUpReport,
   PerformanceMetrics,
   PromiseCacherStatistics,
+  RequestResultType,
 } from './define';
+import {
+  CircuitOpenError,
+  QueueFullError,
+  QueueTimeoutError,
+  WarmUpError,
+} from './errors';
+import { createEvictionPolicy } from './eviction/create-eviction-policy';
+import { BatchLoader } from './util/batch-loader';
 import { cacheKeyTransformDefaultFn } from './util/cache-key-transform-default-fn';
+import { CircuitBreaker } from './util/circuit-breaker';
+import {
+  LatencyHistogram,
+  WindowedLatencyHistogram,
+  WindowedLatencyHistogramOptions,
+} from './util/latency-histogram';
+import { PriorityQueue } from './util/priority-queue';
+import { TypedEventEmitter } from './util/event-emitter';
+import { RetryOptions } from './util/retry';
+import { TokenBucket } from './util/token-bucket';
 import { sizeFormat } from './util/size-format';
+import { SpaceSaving } from './util/space-saving';
+
+/** Settings of the response time histograms, reaching back to the longest window */
+const LatencyHistogramOptions: WindowedLatencyHistogramOptions = {
+  relativeAccuracy: LatencyRelativeAccuracy,
+  slotMs: LatencyWindowSlotMs,
+  maxWindowMs: LatencyWindowsMs.last15m,
+};
 
 /**
  * A sophisticated promise caching system that provides automatic memory management,
@@ -30,30 +94,89 @@ import { sizeFormat } from './util/size-format';
  * - Timeout handling for long-running operations
  * - Error handling policies (cache or release errors)
  * - Concurrent request limiting
+ * - Typed lifecycle events (hit, miss, fetch, timeout, expire, evict, set, delete)
  *
  * @template OUTPUT - The type of values returned by cached promises
  * @template INPUT - The type of keys used to identify cache entries
  */
-export class PromiseCacher<OUTPUT = any, INPUT = any> {
+export class PromiseCacher<OUTPUT = any, INPUT = any> extends TypedEventEmitter<
+  CacherEvents<OUTPUT, INPUT>
+> {
   /** Map storing all active cache tasks, keyed by transformed cache keys */
   private taskMap = new Map<string, CacheTask<OUTPUT, INPUT>>();
 
+  /** Coalesces misses into batched calls, undefined unless batchFetchFn is configured */
+  private batchLoader?: BatchLoader<INPUT, OUTPUT | CacheEntry<OUTPUT>>;
+
+  /** Guards the fetch function, undefined unless a circuit breaker is configured */
+  public readonly circuitBreaker?: CircuitBreaker;
+
+  /** Picks the entries to evict when a memory or entry-count limit is exceeded */
+  private readonly evictionPolicy: EvictionPolicy;
+
+  /** Held tasks waiting for a concurrency slot, by priority */
+  private readonly queuedTasks: PriorityQueue<CacheTask<OUTPUT, INPUT>>;
+
+  /** Held tasks whose fetch is running */
+  private runningTasks = new Set<CacheTask<OUTPUT, INPUT>>();
+
+  /** Timers rejecting queued tasks once they waited maxQueueWaitMs */
+  private queueWaitTimers = new Map<
+    CacheTask<OUTPUT, INPUT>,
+    ReturnType<typeof setTimeout>
+  >();
+
+  /** Limits how fast queued fetches start, undefined unless a rate limit is configured */
+  private readonly rateLimiter?: TokenBucket;
+
+  /** Timer resuming the fetch queue once the rate limit allows another fetch */
+  private rateLimitTimer?: ReturnType<typeof setTimeout>;
+
+  /** Keys refreshed on a schedule, by transformed cache key */
+  private warmKeys = new Map<
+    string,
+    {
+      options: KeepWarmOptions;
+      timer: ReturnType<typeof setInterval>;
+    }
+  >();
+
+  /** Warm-ups still running */
+  private pendingWarmUps = new Set<Promise<WarmUpReport<INPUT>>>();
+
+  /** Bytes used by the values of held tasks */
+  private usedMemoryBytes: number = 0;
+
   /** Timer handle for periodic cache cleanup operations */
   private timer: ReturnType<typeof setInterval>;
 
   /** Performance and usage tracking */
   private performanceMetrics: PerformanceMetrics = {
-    responseTimes: [],
-    cachedResponseTimes: [],
-    fetchResponseTimes: [],
+    hitLatency: new WindowedLatencyHistogram(LatencyHistogramOptions),
+    missLatency: new WindowedLatencyHistogram(LatencyHistogramOptions),
+    hitKeys: new SpaceSaving(TopKeysTrackedCount),
+    missKeys: new SpaceSaving(TopKeysTrackedCount),
+    fetchTimeKeys: new SpaceSaving(TopKeysTrackedCount),
     totalFetchCount: 0,
     currentConcurrentRequests: 0,
     maxConcurrentRequestsReached: 0,
     rejectedRequestsCount: 0,
     overMemoryLimitCount: 0,
     usedCount: 0,
+    staleHitCount: 0,
+    storageHitCount: 0,
     releasedMemoryBytes: 0,
+    peakOvershootBytes: 0,
+    peakEntryOvershoot: 0,
     timeoutCount: 0,
+    evictionCounts: {
+      [EvictionReasonType.MEMORY]: 0,
+      [EvictionReasonType.CAPACITY]: 0,
+      [EvictionReasonType.TTL]: 0,
+      [EvictionReasonType.MANUAL]: 0,
+    },
+    fetchAttemptCount: 0,
+    retryCount: 0,
     errorCount: 0,
     createdAt: Date.now(),
     recentResponseTimes: [],
@@ -63,9 +186,15 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
   private readonly computedConfig: {
     flushInterval: number;
     ttlMs: number;
+    maxStaleMs: number;
+    refreshAheadRatio?: number;
     timeoutMs: number;
     maxMemoryBytes: number;
     minMemoryBytes: number;
+    maxEntries?: number;
+    maxQueueLength?: number;
+    maxQueueWaitMs?: number;
+    retryOptions?: RetryOptions;
   };
 
   /**
@@ -78,7 +207,65 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     public fetchFn: FetchByKeyMethod<OUTPUT, INPUT>,
     public config: CacherConfig = {},
   ) {
+    super();
     this.computedConfig = this.computeOptimizedConfig();
+    this.queuedTasks = new PriorityQueue(
+      Math.max(
+        0,
+        config.fetchingPolicy?.priorityAgingMs ?? DefaultPriorityAgingMs,
+      ),
+    );
+    this.evictionPolicy = createEvictionPolicy(
+      config.freeUpMemoryPolicy?.evictionPolicy,
+      (taskKey) => this.taskMap.get(taskKey)?.score() ?? 0,
+      this.computedConfig.maxEntries,
+      // Scores are ranked at most once per flush
+      this.computedConfig.flushInterval,
+    );
+    const breakerPolicy = config.fetchingPolicy?.circuitBreaker;
+    if (breakerPolicy) {
+      this.circuitBreaker = new CircuitBreaker({
+        consecutiveFailures: Math.max(
+          0,
+          breakerPolicy.consecutiveFailures ??
+            DefaultCircuitConsecutiveFailures,
+        ),
+        errorRateThreshold: breakerPolicy.errorRateThreshold,
+        windowSize: Math.max(
+          1,
+          breakerPolicy.windowSize ?? DefaultCircuitWindowSize,
+        ),
+        minimumCalls: Math.max(
+          1,
+          breakerPolicy.minimumCalls ?? DefaultCircuitMinimumCalls,
+        ),
+        coolDownMs: Math.max(
+          0,
+          breakerPolicy.coolDownMs ?? DefaultCircuitCoolDownMs,
+        ),
+      });
+    }
+    const rateLimit = config.fetchingPolicy?.rateLimit;
+    if (rateLimit) {
+      const requests = Math.max(1, rateLimit.requests);
+      this.rateLimiter = new TokenBucket({
+        tokensPerInterval: requests,
+        intervalMs: Math.max(
+          1,
+          rateLimit.intervalMs ?? DefaultRateLimitIntervalMs,
+        ),
+        capacity: Math.max(1, rateLimit.burst ?? requests),
+      });
+    }
+    if (config.fetchingPolicy?.batchFetchFn) {
+      this.batchLoader = new BatchLoader(
+        (inputs, signal) => this.fetchBatch(inputs, signal),
+        {
+          windowMs: config.fetchingPolicy.batchWindowMs ?? DefaultBatchWindowMs,
+          maxBatchSize: config.fetchingPolicy.maxBatchSize,
+        },
+      );
+    }
     this.setTimer();
   }
 
@@ -92,9 +279,39 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     const memoryConfig = this.computeMemoryConfiguration();
     const timingConfig = this.computeTimingConfiguration();
 
+    const retryOptions = this.computeRetryOptions();
+
+    const { maxQueueLength, maxQueueWaitMs } =
+      this.config?.fetchingPolicy ?? {};
+
     return {
       ...memoryConfig,
       ...timingConfig,
+      maxQueueLength:
+        maxQueueLength !== undefined ? Math.max(0, maxQueueLength) : undefined,
+      maxQueueWaitMs:
+        maxQueueWaitMs !== undefined ? Math.max(0, maxQueueWaitMs) : undefined,
+      retryOptions,
+    };
+  }
+
+  /**
+   * Computes the retry options, filling in defaults for unset values.
+   *
+   * @returns Retry options, or undefined when no retry policy is configured
+   */
+  private computeRetryOptions(): RetryOptions | undefined {
+    const retry = this.config?.fetchingPolicy?.retry;
+    if (!retry) return undefined;
+    const retryable = retry.retryable ?? (() => true);
+    return {
+      maxAttempts: Math.max(1, retry.maxAttempts ?? DefaultRetryMaxAttempts),
+      baseDelayMs: Math.max(0, retry.baseDelayMs ?? DefaultRetryBaseDelayMs),
+      maxDelayMs: Math.max(0, retry.maxDelayMs ?? DefaultRetryMaxDelayMs),
+      jitter: retry.jitter !== false,
+      // An open circuit breaker would only reject the retry again
+      retryable: (error, attempt) =>
+        !(error instanceof CircuitOpenError) && retryable(error, attempt),
     };
   }
 
@@ -118,9 +335,13 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
         ? userMinMemoryByte
         : maxMemoryBytes / 2; // Default to half of max memory
 
+    const maxEntries = this.config?.freeUpMemoryPolicy?.maxEntries;
+
     return {
       maxMemoryBytes,
       minMemoryBytes,
+      maxEntries:
+        maxEntries !== undefined ? Math.max(0, maxEntries) : undefined,
     };
   }
 
@@ -140,6 +361,18 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     // Use configured cache duration or default
     const ttlMs = this.config?.cachePolicy?.ttlMs ?? DefaultTtlMs;
 
+    // Stale values may be served for another ttlMs unless configured otherwise
+    const maxStaleMs = Math.max(
+      0,
+      this.config?.cachePolicy?.maxStaleMs ?? ttlMs,
+    );
+
+    // Refresh-ahead is disabled unless configured
+    const refreshAheadRatio =
+      typeof this.config?.cachePolicy?.refreshAheadRatio == 'number'
+        ? Math.min(1, Math.max(0, this.config.cachePolicy.refreshAheadRatio))
+        : undefined;
+
     // Timeout cannot exceed cache duration, and should be undefined if not configured
     const timeoutMs =
       typeof this.config?.fetchingPolicy?.timeoutMs == 'number'
@@ -149,6 +382,8 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     return {
       flushInterval,
       ttlMs,
+      maxStaleMs,
+      refreshAheadRatio,
       timeoutMs,
     };
   }
@@ -191,6 +426,25 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     return this.computedConfig.ttlMs;
   }
 
+  /**
+   * Gets how long a stale value may be served past its TTL while it is revalidated.
+   * Only used by the STALE_WHILE_REVALIDATE expiration strategy.
+   *
+   * @returns Max-staleness window in milliseconds
+   */
+  public get maxStaleMs(): number {
+    return this.computedConfig.maxStaleMs;
+  }
+
+  /**
+   * Gets the share of the TTL after which a hit refreshes the entry ahead of expiry.
+   *
+   * @returns Ratio between 0 and 1, undefined when refresh-ahead is disabled
+   */
+  public get refreshAheadRatio(): number | undefined {
+    return this.computedConfig.refreshAheadRatio;
+  }
+
   public get concurrency(): number {
     const configConcurrency =
       this.config?.fetchingPolicy?.concurrency ?? DefaultConcurrency;
@@ -215,6 +469,24 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     return this.config?.fetchingPolicy?.useClones === true;
   }
 
+  /**
+   * Gets the storage adapter that settled values are persisted to.
+   *
+   * @returns The configured storage adapter, or undefined for memory-only caching
+   */
+  public get storage(): CacheStorageAdapter<OUTPUT, INPUT> | undefined {
+    return this.config?.storagePolicy?.adapter;
+  }
+
+  /**
+   * Gets how long values written to the storage adapter may be served.
+   *
+   * @returns Storage TTL in milliseconds (default: the cache TTL)
+   */
+  public get storageTtlMs(): number {
+    return this.config?.storagePolicy?.ttlMs ?? this.ttlMs;
+  }
+
   public get calcCacheScoreFn(): CalcCacheScoreFn {
     return this.config?.freeUpMemoryPolicy?.calcCacheScoreFn;
   }
@@ -230,21 +502,66 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
   }
 
   /**
-   * Gets all cache tasks as an array.
+   * Gets the retry options for failed fetches.
    *
-   * @returns Array of all cache tasks
+   * @returns Retry options with defaults applied, or undefined if retries are disabled
    */
-  private get tasks(): CacheTask<OUTPUT, INPUT>[] {
-    return Array.from(this.taskMap.values());
+  public get retryOptions(): RetryOptions | undefined {
+    return this.computedConfig.retryOptions;
+  }
+
+  /**
+   * Gets the instrumentation tracing fetches and requests.
+   *
+   * @returns The configured instrumentation, or undefined if none is set
+   */
+  public get instrumentation():
+    | FetchInstrumentation<OUTPUT, INPUT>
+    | undefined {
+    return this.config?.fetchingPolicy?.instrumentation;
   }
 
   /**
-   * Calculates total memory usage across all cache tasks.
+   * Records a call to the fetch function.
    *
-   * @returns Total memory usage in bytes
+   * @param attempt - The attempt number of the call, starting at 1
    */
-  private get usedMemoryBytes(): number {
-    return this.tasks.reduce((total, task) => total + task.usedBytes, 0);
+  public recordFetchAttempt(attempt: number): void {
+    this.performanceMetrics.fetchAttemptCount++;
+    if (attempt > 1) {
+      this.performanceMetrics.retryCount++;
+    }
+  }
+
+  /**
+   * Records a fetch that exceeded fetchingPolicy.timeoutMs.
+   */
+  public recordTimeout(): void {
+    this.performanceMetrics.timeoutCount++;
+  }
+
+  /**
+   * Records the time a settled fetch took against its key.
+   *
+   * @param task - The task whose fetch settled
+   */
+  public recordFetchTime(task: CacheTask<OUTPUT, INPUT>): void {
+    this.performanceMetrics.fetchTimeKeys.add(
+      task.taskKey,
+      task.input,
+      task.responseTime,
+    );
+  }
+
+  /**
+   * Gets all cache tasks as an array.
+   * Copies every entry, so it is only used where each entry is visited anyway
+   * (clear(), keys() and ranking by bytes), never on the request path.
+   *
+   * @returns Array of all cache tasks
+   */
+  private get tasks(): CacheTask<OUTPUT, INPUT>[] {
+    return Array.from(this.taskMap.values());
   }
 
   /**
@@ -267,26 +584,63 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
    * This is the primary method for accessing cached data.
    *
    * @param key - The key to identify the cached item
-   * @param forceUpdate - If true, bypasses cache and fetches fresh data
+   * @param options - Request options, or true to bypass cache and fetch fresh data
    * @returns Promise resolving to the cached or freshly fetched value
    */
-  public async get(key: INPUT, forceUpdate: boolean = false): Promise<OUTPUT> {
+  public async get(
+    key: INPUT,
+    options: boolean | GetOptions = false,
+  ): Promise<OUTPUT> {
     const startTime = Date.now();
     this.performanceMetrics.usedCount++;
 
+    const {
+      forceUpdate = false,
+      signal,
+      priority,
+    }: GetOptions = typeof options === 'boolean'
+      ? { forceUpdate: options }
+      : options;
+
     const taskKey = this.transformCacheKey(key);
-    const { isNewTask, isFromCache } = this.determineCacheStrategy(
-      key,
-      taskKey,
-      forceUpdate,
-    );
+    const { task, isNewTask, isFromCache, isStale } =
+      this.determineCacheStrategy(key, taskKey, forceUpdate, priority);
 
     if (isNewTask) {
       this.performanceMetrics.totalFetchCount++;
     }
+    if (isStale) {
+      this.performanceMetrics.staleHitCount++;
+    }
+    if (isNewTask) {
+      this.performanceMetrics.missKeys.add(taskKey, key);
+      if (this.hasListeners('miss')) {
+        this.emit('miss', { key, timings: task.timings });
+      }
+    } else {
+      this.performanceMetrics.hitKeys.add(taskKey, key);
+      this.evictionPolicy.onAccess(taskKey);
+      if (this.hasListeners('hit')) {
+        this.emit('hit', { key, timings: task.timings, stale: isStale });
+      }
+    }
+    if (!isNewTask && this.queuedTasks.has(task)) {
+      // Raise a queued fetch to the most urgent request waiting on it
+      this.queuedTasks.push(task, priority);
+    }
+    this.instrumentation?.onRequest?.(
+      task,
+      isNewTask
+        ? RequestResultType.MISS
+        : isStale
+          ? RequestResultType.STALE_HIT
+          : task.resolvedAt === undefined
+            ? RequestResultType.COALESCED
+            : RequestResultType.HIT,
+    );
 
     try {
-      const result = await this.taskMap.get(taskKey).output();
+      const result = await task.output(signal);
       this.recordSuccessMetrics(startTime, isFromCache);
       return result;
     } catch (error) {
@@ -295,42 +649,223 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     }
   }
 
+  /**
+   * Retrieves many cached values at once, fetching every miss.
+   * With batchFetchFn configured, the misses are fetched with a single batched call,
+   * while each key still gets its own cache entry.
+   *
+   * @param keys - The keys to identify the cached items
+   * @param options - Request options applied to every key
+   * @returns Promise resolving to the values in the order of the keys,
+   * rejected with the first error encountered
+   */
+  public getMany(keys: INPUT[], options?: GetOptions): Promise<OUTPUT[]> {
+    return Promise.all(keys.map((key) => this.get(key, options)));
+  }
+
+  /**
+   * Fetches a single input, through the batch loader when batchFetchFn is configured.
+   *
+   * @param input - The input to fetch
+   * @param context - The fetch context carrying the abort signal
+   * @returns The fetched output, optionally wrapped in a CacheEntry
+   */
+  public fetchByKey(
+    input: INPUT,
+    context: FetchContext,
+  ): Promise<OUTPUT | CacheEntry<OUTPUT>> {
+    if (this.batchLoader) {
+      return this.batchLoader.load(input, context.signal);
+    }
+    return this.fetchFn(input, context);
+  }
+
+  /**
+   * Calls batchFetchFn and aligns its result with the inputs.
+   * Map results are matched by cache key, so equal inputs of any shape find their output.
+   *
+   * @param inputs - The inputs collected in this batch
+   * @param signal - Aborted once every input in the batch is cancelled
+   * @returns Outputs in the order of the inputs, with an Error for each missing input
+   */
+  private async fetchBatch(
+    inputs: INPUT[],
+    signal: AbortSignal,
+  ): Promise<(OUTPUT | CacheEntry<OUTPUT> | Error)[]> {
+    const result = await this.config.fetchingPolicy.batchFetchFn(inputs, {
+      signal,
+    });
+    const missingError = (input: INPUT) =>
+      new Error(
+        `Error CacheTask batch result missing key#${this.transformCacheKey(input)}`,
+      );
+    if (Array.isArray(result)) {
+      return inputs.map((input, index) =>
+        index < result.length ? result[index] : missingError(input),
+      );
+    }
+    const outputs = new Map<string, OUTPUT | CacheEntry<OUTPUT> | Error>();
+    result.forEach((output, input) =>
+      outputs.set(this.transformCacheKey(input), output),
+    );
+    return inputs.map((input) => {
+      const taskKey = this.transformCacheKey(input);
+      return outputs.has(taskKey) ? outputs.get(taskKey) : missingError(input);
+    });
+  }
+
   /**
    * Determines cache strategy and updates cache state if needed.
    *
    * @param key - Original input key
    * @param taskKey - Transformed cache key
    * @param forceUpdate - Whether to force update
+   * @param priority - Scheduling priority of a fetch started for the request
    * @returns Cache strategy information
    */
   private determineCacheStrategy(
     key: INPUT,
     taskKey: string,
     forceUpdate: boolean,
+    priority?: number,
   ): {
+    task: CacheTask<OUTPUT, INPUT>;
     isNewTask: boolean;
     isFromCache: boolean;
+    isStale: boolean;
   } {
-    // Force update or no existing task - create new task
-    if (forceUpdate || !this.taskMap.has(taskKey)) {
-      this.set(key);
-      return { isNewTask: true, isFromCache: false };
+    const existingTask = this.taskMap.get(taskKey);
+    // Force update, no existing task or an aborted one still settling - create new task
+    if (forceUpdate || !existingTask || existingTask.isAborted) {
+      this.createTask(key, taskKey, undefined, {
+        bypassStorage: forceUpdate,
+        priority,
+      });
+      return {
+        task: this.taskMap.get(taskKey),
+        isNewTask: true,
+        isFromCache: false,
+        isStale: false,
+      };
     }
 
-    const existingTask = this.taskMap.get(taskKey);
     const status = existingTask.status;
 
-    if (status === CacheTaskStatusType.EXPIRED) {
+    if (
+      status === CacheTaskStatusType.EXPIRED &&
+      this.isServingStaleOnOpenCircuit(existingTask)
+    ) {
+      // Upstream is failing - keep serving the expired value
+      return {
+        task: existingTask,
+        isNewTask: false,
+        isFromCache: true,
+        isStale: true,
+      };
+    } else if (status === CacheTaskStatusType.EXPIRED) {
       // Task expired - create new task
-      this.set(key);
-      return { isNewTask: true, isFromCache: false };
+      this.expire(taskKey, existingTask);
+      this.createTask(key, taskKey, undefined, { priority });
+      return {
+        task: this.taskMap.get(taskKey),
+        isNewTask: true,
+        isFromCache: false,
+        isStale: false,
+      };
+    } else if (status === CacheTaskStatusType.STALE) {
+      // Stale hit - serve the old value and revalidate in the background
+      this.refresh(key, taskKey, existingTask, priority);
+      return {
+        task: existingTask,
+        isNewTask: false,
+        isFromCache: true,
+        isStale: true,
+      };
     } else if (status === CacheTaskStatusType.ACTIVE) {
       // Cache hit - use existing resolved value
-      return { isNewTask: false, isFromCache: true };
+      if (existingTask.isDueForRefresh) {
+        // Close to expiry - refresh in the background so the entry never goes stale
+        this.refresh(key, taskKey, existingTask, priority);
+      }
+      return {
+        task: existingTask,
+        isNewTask: false,
+        isFromCache: true,
+        isStale: false,
+      };
+    } else if (existingTask.isServingStaleTask) {
+      // Refresh still pending - keep serving the previous value
+      return {
+        task: existingTask.staleTask,
+        isNewTask: false,
+        isFromCache: true,
+        isStale: existingTask.staleTask.status === CacheTaskStatusType.STALE,
+      };
     } else {
       // Task is pending (AWAIT or QUEUED) - wait for completion
-      return { isNewTask: false, isFromCache: false };
+      return {
+        task: existingTask,
+        isNewTask: false,
+        isFromCache: false,
+        isStale: false,
+      };
+    }
+  }
+
+  /**
+   * Checks whether an expired entry is kept and served because the circuit breaker is open.
+   *
+   * @param task - The expired task
+   * @returns True if the task's value should be served instead of fetching
+   */
+  private isServingStaleOnOpenCircuit(task: CacheTask<OUTPUT, INPUT>): boolean {
+    return (
+      this.circuitBreaker?.isRejecting === true &&
+      this.config.fetchingPolicy.circuitBreaker.serveStale !== false &&
+      task.hasValue
+    );
+  }
+
+  /**
+   * Starts a background refresh of a stale or soon to expire cache entry.
+   * The previous task stays reachable through the new task until the refresh resolves.
+   *
+   * @param key - Original input key
+   * @param taskKey - Transformed cache key
+   * @param staleTask - The previous task being refreshed
+   * @param priority - Scheduling priority of the revalidation
+   */
+  private refresh(
+    key: INPUT,
+    taskKey: string,
+    staleTask: CacheTask<OUTPUT, INPUT>,
+    priority?: number,
+  ): void {
+    this.setTask(
+      taskKey,
+      new CacheTask(this, key, undefined, {
+        ...staleTask.entryOptions,
+        staleTask,
+        taskKey,
+      }),
+      priority,
+    );
+    this.consume();
+    this.setTimer();
+  }
+
+  /**
+   * Puts the previous task back in place of a refresh that failed,
+   * so callers keep getting the last good value until it expires.
+   *
+   * @param refreshTask - The failed revalidation task
+   */
+  public revertRefresh(refreshTask: CacheTask<OUTPUT, INPUT>): void {
+    const taskKey = this.transformCacheKey(refreshTask.input);
+    if (this.taskMap.get(taskKey) !== refreshTask || !refreshTask.staleTask) {
+      return;
     }
+    this.setTask(taskKey, refreshTask.staleTask);
   }
 
   /**
@@ -342,11 +877,6 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
   private recordSuccessMetrics(startTime: number, isFromCache: boolean): void {
     const responseTime = Date.now() - startTime;
 
-    this.addToMetricsArray(
-      this.performanceMetrics.responseTimes,
-      responseTime,
-      1000,
-    );
     this.addToMetricsArray(
       this.performanceMetrics.recentResponseTimes,
       responseTime,
@@ -354,17 +884,9 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     );
 
     if (isFromCache) {
-      this.addToMetricsArray(
-        this.performanceMetrics.cachedResponseTimes,
-        responseTime,
-        1000,
-      );
+      this.performanceMetrics.hitLatency.record(responseTime);
     } else {
-      this.addToMetricsArray(
-        this.performanceMetrics.fetchResponseTimes,
-        responseTime,
-        1000,
-      );
+      this.performanceMetrics.missLatency.record(responseTime);
     }
   }
 
@@ -378,11 +900,6 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     this.performanceMetrics.errorCount++;
     const responseTime = Date.now() - startTime;
 
-    this.addToMetricsArray(
-      this.performanceMetrics.responseTimes,
-      responseTime,
-      1000,
-    );
     this.addToMetricsArray(
       this.performanceMetrics.recentResponseTimes,
       responseTime,
@@ -390,11 +907,7 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     );
 
     if (!isFromCache) {
-      this.addToMetricsArray(
-        this.performanceMetrics.fetchResponseTimes,
-        responseTime,
-        1000,
-      );
+      this.performanceMetrics.missLatency.record(responseTime);
     }
   }
 
@@ -433,54 +946,829 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
    *
    * @param key - The key to associate with the cached value
    * @param value - The value or promise to cache
+   * @param options - Per-entry options such as ttlMs, staleMs or noCache,
+   * and the priority of the fetch when no value is given
    */
-  public set(key: INPUT, value?: OUTPUT | Promise<OUTPUT> | Error): void {
+  public set(
+    key: INPUT,
+    value?: OUTPUT | Promise<OUTPUT> | Error,
+    options?: SetOptions,
+  ): void {
     const taskKey = this.transformCacheKey(key);
+    this.createTask(key, taskKey, value, options);
+    if (this.hasListeners('set')) {
+      this.emit('set', { key, timings: this.taskMap.get(taskKey).timings });
+    }
+  }
+
+  /**
+   * Keeps entries warm by refreshing them through the fetch function on a schedule.
+   * Each key is fetched right away and then every intervalMs. A held value keeps
+   * being served while it is refreshed, refreshes wait for a concurrency slot like
+   * any other fetch, and refreshing does not count as a request or reset usage.
+   * Calling it again for a key replaces that key's schedule.
+   *
+   * @param keys - The keys to keep warm
+   * @param intervalMs - Time between refreshes in milliseconds
+   * @param options - Pinning and scheduling priority of the refreshes
+   */
+  public keepWarm(
+    keys: INPUT[],
+    intervalMs: number,
+    options: KeepWarmOptions = {},
+  ): void {
+    keys.forEach((key) => {
+      const taskKey = this.transformCacheKey(key);
+      this.unkeepWarmByCacheKey(taskKey);
+      this.warmKeys.set(taskKey, {
+        options,
+        timer: setInterval(
+          () => this.refreshWarmKey(key, taskKey),
+          Math.max(1, intervalMs),
+        ),
+      });
+      this.refreshWarmKey(key, taskKey);
+    });
+  }
+
+  /**
+   * Stops refreshing kept warm entries. The entries stay cached until they expire
+   * and may be evicted again.
+   *
+   * @param keys - The keys to stop refreshing, all of them when omitted
+   */
+  public unkeepWarm(keys?: INPUT[]): void {
+    if (keys) {
+      keys.forEach((key) =>
+        this.unkeepWarmByCacheKey(this.transformCacheKey(key)),
+      );
+    } else {
+      Array.from(this.warmKeys.keys()).forEach((taskKey) =>
+        this.unkeepWarmByCacheKey(taskKey),
+      );
+    }
+  }
+
+  private unkeepWarmByCacheKey(taskKey: string): void {
+    clearInterval(this.warmKeys.get(taskKey)?.timer);
+    this.warmKeys.delete(taskKey);
+  }
+
+  /**
+   * Refreshes a kept warm entry, fetching it when it holds no usable value.
+   * Nothing is done while the entry is already being fetched.
+   *
+   * @param key - Original input key
+   * @param taskKey - Transformed cache key
+   */
+  private refreshWarmKey(key: INPUT, taskKey: string): void {
+    const priority = this.warmKeys.get(taskKey)?.options.priority;
+    const task = this.taskMap.get(taskKey);
+    const status = task?.status;
+    if (
+      status === CacheTaskStatusType.QUEUED ||
+      status === CacheTaskStatusType.AWAIT
+    ) {
+      return;
+    }
+    if (
+      task?.hasValue &&
+      (status === CacheTaskStatusType.ACTIVE ||
+        status === CacheTaskStatusType.STALE)
+    ) {
+      this.refresh(key, taskKey, task, priority);
+      return;
+    }
+    if (status === CacheTaskStatusType.EXPIRED) {
+      this.expire(taskKey, task);
+    }
+    this.createTask(key, taskKey, undefined, { priority });
+  }
+
+  /**
+   * Pre-populates the cache through the fetch function, typically at startup.
+   * Keys are loaded a few at a time, each fetch still waiting for a concurrency slot;
+   * held values and fetches in progress are reused. Loading does not count as a request.
+   *
+   * @param keys - The keys to load, or an async iterable producing them
+   * @param options - Parallelism, failure handling, priority and progress reporting
+   * @returns Promise resolving to a summary of loaded and failed keys,
+   * rejected with a WarmUpError at the first failure when failFast is set
+   */
+  public warmUp(
+    keys: INPUT[] | AsyncIterable<INPUT>,
+    options: WarmUpOptions<INPUT> = {},
+  ): Promise<WarmUpReport<INPUT>> {
+    const warmUp = this.runWarmUp(keys, options);
+    this.pendingWarmUps.add(warmUp);
+    const untrack = () => {
+      this.pendingWarmUps.delete(warmUp);
+    };
+    warmUp.then(untrack, untrack);
+    return warmUp;
+  }
+
+  /**
+   * Resolves once every warm-up in progress has finished,
+   * rejected if one of them fails fast. Resolves right away when none is running.
+   */
+  public get ready(): Promise<void> {
+    return Promise.all(Array.from(this.pendingWarmUps)).then(() => undefined);
+  }
+
+  private async runWarmUp(
+    keys: INPUT[] | AsyncIterable<INPUT>,
+    options: WarmUpOptions<INPUT>,
+  ): Promise<WarmUpReport<INPUT>> {
+    const startedAt = Date.now();
+    const { failFast = false, priority, onProgress } = options;
+    const concurrency = Math.max(
+      1,
+      options.concurrency ?? (this.concurrency || DefaultWarmUpConcurrency),
+    );
+    let index = 0;
+    const iterator: AsyncIterator<INPUT> = Array.isArray(keys)
+      ? {
+          next: () =>
+            Promise.resolve(
+              index < keys.length
+                ? { done: false, value: keys[index++] }
+                : { done: true, value: undefined },
+            ),
+        }
+      : keys[Symbol.asyncIterator]();
+    const report: WarmUpReport<INPUT> = {
+      loaded: 0,
+      failures: [],
+      durationMs: 0,
+    };
+    const isStopped = () => failFast && report.failures.length > 0;
+
+    // Keys are pulled one at a time, the source may not support concurrent reads
+    let pulling: Promise<unknown> = Promise.resolve();
+    const pull = () => {
+      const next = pulling.then(() => iterator.next());
+      pulling = next.catch(() => undefined);
+      return next;
+    };
+
+    const worker = async (): Promise<void> => {
+      while (!isStopped()) {
+        const { done, value: key } = await pull();
+        if (done || isStopped()) return;
+        try {
+          await this.load(key, priority);
+          report.loaded++;
+          onProgress?.({
+            key,
+            loaded: report.loaded,
+            failed: report.failures.length,
+          });
+        } catch (error) {
+          report.failures.push({ key, error });
+          onProgress?.({
+            key,
+            error,
+            loaded: report.loaded,
+            failed: report.failures.length,
+          });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    report.durationMs = Date.now() - startedAt;
+    if (isStopped()) {
+      await iterator.return?.();
+      throw new WarmUpError(report);
+    }
+    return report;
+  }
+
+  /**
+   * Loads a key into the cache without counting as a request.
+   * A held value or a fetch in progress is reused.
+   *
+   * @param key - The key to load
+   * @param priority - Scheduling priority of a fetch started for the key
+   * @returns Promise resolving once the entry is settled, rejected with its error
+   */
+  private load(key: INPUT, priority?: number): Promise<void> {
+    const taskKey = this.transformCacheKey(key);
+    const task = this.taskMap.get(taskKey);
+    const status = task?.status;
+    if (status === CacheTaskStatusType.EXPIRED) {
+      this.expire(taskKey, task);
+    }
+    if (
+      !task ||
+      status === CacheTaskStatusType.EXPIRED ||
+      status === CacheTaskStatusType.FAILED
+    ) {
+      this.createTask(key, taskKey, undefined, { priority });
+    }
+    return this.taskMap
+      .get(taskKey)
+      .settled()
+      .then(() => undefined);
+  }
+
+  /**
+   * Captures every fresh entry with its value, timing and usage, for example
+   * to reload the cache after a restart or hand it over to another deployment.
+   * Values are taken as held, so they must be serializable for the snapshot to be.
+   * Does not count as a request.
+   *
+   * @returns Promise resolving to the snapshot
+   */
+  public async exportSnapshot(): Promise<CacheSnapshot<OUTPUT, INPUT>> {
+    const exportedAt = Date.now();
+    const tasks: [string, CacheTask<OUTPUT, INPUT>][] = [];
+    this.taskMap.forEach((task, taskKey) => {
+      if (task.status === CacheTaskStatusType.ACTIVE && task.hasValue) {
+        tasks.push([taskKey, task]);
+      }
+    });
+    const entries = await Promise.all(
+      tasks.map(
+        async ([taskKey, task]): Promise<
+          CacheSnapshotEntry<OUTPUT, INPUT>
+        > => ({
+          input: task.input,
+          key: taskKey,
+          value: await task.settled(),
+          createdAt: task.createdAt,
+          resolvedAt: task.resolvedAt,
+          lastAccessedAt: task.lastAccessedAt,
+          usedCount: task.usedCount,
+          ttlMs: task.ttlMs,
+          remainingTtlMs: Math.max(0, task.expiresAt - exportedAt),
+          tags: task.tags.slice(),
+        }),
+      ),
+    );
+    return { exportedAt, entries };
+  }
+
+  /**
+   * Loads the entries of a snapshot, keeping their original timing so they expire
+   * when they would have in the exporting cacher; the clocks of both are assumed to agree.
+   * Entries that have expired since, empty values and keys already held are skipped.
+   * Keys are transformed again, so the cacheKeyTransform in use applies.
+   *
+   * @param snapshot - A snapshot taken by exportSnapshot()
+   * @returns Number of entries imported
+   */
+  public importSnapshot(snapshot: CacheSnapshot<OUTPUT, INPUT>): number {
+    const now = Date.now();
+    let imported = 0;
+    snapshot.entries.forEach((entry) => {
+      const lifetimeStart =
+        this.expirationStrategy === ExpirationStrategyType.IDLE
+          ? entry.lastAccessedAt
+          : entry.resolvedAt;
+      if (lifetimeStart + entry.ttlMs <= now || entry.value == undefined) {
+        // Expired, or an empty value that would be fetched instead of held
+        return;
+      }
+      const taskKey = this.transformCacheKey(entry.input);
+      const status = this.taskMap.get(taskKey)?.status;
+      if (
+        status !== undefined &&
+        status !== CacheTaskStatusType.EXPIRED &&
+        status !== CacheTaskStatusType.FAILED
+      ) {
+        return;
+      }
+      this.deleteByCacheKey(taskKey);
+      this.setTask(
+        taskKey,
+        new CacheTask(this, entry.input, entry.value, {
+          taskKey,
+          ttlMs: entry.ttlMs,
+          tags: entry.tags,
+          snapshotEntry: entry,
+        }),
+      );
+      this.evictionPolicy.onInsert(taskKey);
+      imported++;
+    });
+    this.enforceMaxEntries();
+    this.setTimer();
+    return imported;
+  }
+
+  /**
+   * Replaces the cache entry for a key with a new task and schedules it.
+   * Callers still waiting on a replaced task are not rejected: a running fetch settles
+   * for them and keeps its concurrency slot until then, a queued one hands them over.
+   *
+   * @param key - Original input key
+   * @param taskKey - Transformed cache key
+   * @param value - The value or promise to cache, fetched when omitted
+   * @param options - Options for the new task
+   */
+  private createTask(
+    key: INPUT,
+    taskKey: string,
+    value?: OUTPUT | Promise<OUTPUT> | Error,
+    options?: CacheTaskOptions<OUTPUT, INPUT>,
+  ): void {
+    const task = new CacheTask(this, key, value, { ...options, taskKey });
+    const replacedTask = this.taskMap.get(taskKey);
+    const isReplacingRunningFetch =
+      !!replacedTask && this.runningTasks.has(replacedTask);
     this.deleteByCacheKey(taskKey);
-    this.taskMap.set(taskKey, new CacheTask(this, key, value));
+    if (isReplacingRunningFetch) {
+      this.runningTasks.add(replacedTask);
+      this.recordConcurrency();
+    }
+    replacedTask?.handOver(task);
+    this.setTask(taskKey, task, options?.priority);
+    this.evictionPolicy.onInsert(taskKey);
+    this.enforceMaxEntries();
     this.consume();
     this.setTimer();
   }
 
-  public consume(): void {
-    const queuedTasks = this.tasks
-      .filter((t) => t.status == CacheTaskStatusType.QUEUED)
-      .sort((a, b) => a.order - b.order);
-    if (queuedTasks.length == 0) return;
-    const awaitedTasks = this.tasks.filter(
-      (t) => t.status == CacheTaskStatusType.AWAIT,
+  /**
+   * Evicts settled entries, as picked by the eviction policy, until the entry count
+   * is within maxEntries. Entries still being fetched are kept, so the count may
+   * stay above the limit until they settle.
+   *
+   * @param sparedKey - Entry evicted only when no other entry can be
+   */
+  private enforceMaxEntries(sparedKey?: string): void {
+    const maxEntries = this.computedConfig.maxEntries;
+    if (maxEntries === undefined) return;
+    while (this.taskMap.size > maxEntries) {
+      const taskKey =
+        this.evictionPolicy.selectVictim(
+          (key) => key !== sparedKey && this.isEvictable(key),
+        ) ?? (this.isEvictable(sparedKey) ? sparedKey : undefined);
+      if (taskKey === undefined) break;
+      this.evict(
+        taskKey,
+        this.taskMap.get(taskKey),
+        EvictionReasonType.CAPACITY,
+      );
+    }
+    this.performanceMetrics.peakEntryOvershoot = Math.max(
+      this.performanceMetrics.peakEntryOvershoot,
+      this.taskMap.size - maxEntries,
     );
-    if (!this.concurrency) {
-      queuedTasks.forEach((task) => task.run());
-      return;
+  }
+
+  /**
+   * Enforces the entry and memory limits right away, so they hold between flushes.
+   * Called by CacheTask when a task settles and its memory usage becomes known.
+   * The settled entry is only evicted if the limits can not be met otherwise.
+   *
+   * @param settledTask - The task that just settled
+   */
+  public enforceLimits(settledTask: CacheTask<OUTPUT, INPUT>): void {
+    const maxEntries = this.computedConfig.maxEntries;
+    const isOverMaxEntries =
+      maxEntries !== undefined && this.taskMap.size > maxEntries;
+    if (!isOverMaxEntries && !this.shouldCleanupMemory()) return;
+    const settledKey = settledTask.taskKey;
+    this.enforceMaxEntries(settledKey);
+    this.enforceMemoryLimit(settledKey);
+  }
+
+  /**
+   * Frees memory down to minMemoryBytes once usage exceeds maxMemoryBytes,
+   * recording by how much the limit was exceeded.
+   *
+   * @param sparedKey - Entry evicted only if usage still exceeds maxMemoryBytes without the others
+   */
+  private enforceMemoryLimit(sparedKey?: string): void {
+    if (!this.shouldCleanupMemory()) return;
+    const usedMemoryBytes = this.usedMemoryBytes;
+    this.performanceMetrics.overMemoryLimitCount++;
+    this.performanceMetrics.peakOvershootBytes = Math.max(
+      this.performanceMetrics.peakOvershootBytes,
+      usedMemoryBytes - this.maxMemoryMegaByte,
+    );
+    this.flushMemory(usedMemoryBytes - this.minMemoryByte, sparedKey);
+    if (
+      sparedKey !== undefined &&
+      this.isEvictable(sparedKey) &&
+      this.shouldCleanupMemory()
+    ) {
+      this.evict(
+        sparedKey,
+        this.taskMap.get(sparedKey),
+        EvictionReasonType.MEMORY,
+      );
     }
-    const availableSlots = this.concurrency - awaitedTasks.length;
-    if (availableSlots <= 0) return;
-    const tasksToRun = queuedTasks.slice(0, availableSlots);
-    tasksToRun.forEach((task) => {
+  }
+
+  /**
+   * Reads a settled value from the storage adapter.
+   * Missing, expired and unreadable records are all treated as a miss.
+   *
+   * @param key - The input key to look up
+   * @returns The stored record, or undefined when it cannot be served
+   */
+  public async readStorage(
+    key: INPUT,
+  ): Promise<CacheStorageRecord<OUTPUT, INPUT> | undefined> {
+    if (!this.storage) return undefined;
+    try {
+      const record = await this.storage.get(this.transformCacheKey(key));
+      if (!record || record.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      this.performanceMetrics.storageHitCount++;
+      return record;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes a settled value to the storage adapter in the background.
+   * Write failures are ignored, the value stays cached in memory.
+   *
+   * @param key - The input key the value belongs to
+   * @param value - The resolved value
+   * @param ttlMs - How long the stored value may be served
+   * @param tags - Tags the entry can be invalidated by
+   */
+  public writeStorage(
+    key: INPUT,
+    value: OUTPUT,
+    ttlMs: number,
+    tags: string[] = [],
+  ): void {
+    if (!this.storage) return;
+    const resolvedAt = Date.now();
+    this.storage
+      .set(this.transformCacheKey(key), {
+        input: key,
+        value,
+        resolvedAt,
+        expiresAt: resolvedAt + ttlMs,
+        ...(tags.length > 0 ? { tags: tags.slice() } : {}),
+      })
+      .catch(() => undefined);
+  }
+
+  public consume(): void {
+    if (this.queuedTasks.size == 0) return;
+    const availableSlots = this.concurrency
+      ? this.concurrency - this.runningTasks.size
+      : this.queuedTasks.size;
+    for (let i = 0; i < availableSlots && this.queuedTasks.size > 0; i++) {
+      if (this.rateLimiter && !this.rateLimiter.tryTake()) {
+        this.resumeConsumeAfter(this.rateLimiter.msUntilAvailable());
+        return;
+      }
+      const task = this.queuedTasks.peek();
+      this.dequeueTask(task);
+      this.runningTasks.add(task);
+      this.recordConcurrency();
       task.run();
-    });
+    }
   }
 
   /**
-   * Removes a specific entry from the cache.
+   * Schedules the fetch queue to be consumed again, once the rate limit allows it.
+   *
+   * @param delayMs - Wait time until the next fetch is allowed
+   */
+  private resumeConsumeAfter(delayMs: number): void {
+    if (this.rateLimitTimer) return;
+    this.rateLimitTimer = setTimeout(() => {
+      this.rateLimitTimer = undefined;
+      this.consume();
+    }, delayMs);
+  }
+
+  /**
+   * Queues a task for a concurrency slot and a rate limit token. A task that would
+   * have to wait in a full queue is rejected instead, and a waiting task is rejected
+   * after maxQueueWaitMs.
+   *
+   * @param task - The task to queue
+   * @param priority - Scheduling priority of the task's fetch
+   */
+  private enqueueTask(task: CacheTask<OUTPUT, INPUT>, priority?: number): void {
+    const { maxQueueLength, maxQueueWaitMs } = this.computedConfig;
+    const mustWait =
+      (!!this.concurrency &&
+        this.runningTasks.size + this.queuedTasks.size >= this.concurrency) ||
+      (!!this.rateLimiter &&
+        this.queuedTasks.size >= this.rateLimiter.available);
+    if (
+      mustWait &&
+      maxQueueLength !== undefined &&
+      this.queuedTasks.size >= maxQueueLength
+    ) {
+      this.rejectQueuedTask(task, new QueueFullError(maxQueueLength));
+      return;
+    }
+    this.queuedTasks.push(task, priority);
+    if (maxQueueWaitMs !== undefined) {
+      this.queueWaitTimers.set(
+        task,
+        setTimeout(
+          () =>
+            this.rejectQueuedTask(task, new QueueTimeoutError(maxQueueWaitMs)),
+          maxQueueWaitMs,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Takes a task off the fetch queue.
+   *
+   * @param task - The task to take off
+   */
+  private dequeueTask(task: CacheTask<OUTPUT, INPUT>): void {
+    this.queuedTasks.delete(task);
+    clearTimeout(this.queueWaitTimers.get(task));
+    this.queueWaitTimers.delete(task);
+  }
+
+  /**
+   * Sheds a task that can not be fetched in time, rejecting its waiting callers.
+   *
+   * @param task - The queued task
+   * @param error - The error to reject waiting callers with
+   */
+  private rejectQueuedTask(task: CacheTask<OUTPUT, INPUT>, error: Error): void {
+    this.dequeueTask(task);
+    this.performanceMetrics.rejectedRequestsCount++;
+    task.abort(error);
+  }
+
+  /**
+   * Holds a task under a cache key in place of the current one,
+   * keeping memory usage and the fetch queue in step.
+   *
+   * @param taskKey - Transformed cache key
+   * @param task - The task to hold
+   * @param priority - Scheduling priority of the task's fetch
+   */
+  private setTask(
+    taskKey: string,
+    task: CacheTask<OUTPUT, INPUT>,
+    priority?: number,
+  ): void {
+    this.untrackTask(this.taskMap.get(taskKey));
+    this.taskMap.set(taskKey, task);
+    this.usedMemoryBytes += task.usedBytes;
+    if (!task.fetchStartedAt) {
+      this.enqueueTask(task, priority);
+    }
+  }
+
+  /**
+   * Removes a task that is no longer held from memory usage and the fetch queue.
+   *
+   * @param task - The task being let go
+   */
+  private untrackTask(task?: CacheTask<OUTPUT, INPUT>): void {
+    if (!task) return;
+    this.usedMemoryBytes -= task.usedBytes;
+    this.dequeueTask(task);
+    this.runningTasks.delete(task);
+    this.recordConcurrency();
+  }
+
+  /**
+   * Records the number of running fetches and the peak reached.
+   */
+  private recordConcurrency(): void {
+    const running = this.runningTasks.size;
+    this.performanceMetrics.currentConcurrentRequests = running;
+    this.performanceMetrics.maxConcurrentRequestsReached = Math.max(
+      this.performanceMetrics.maxConcurrentRequestsReached,
+      running,
+    );
+  }
+
+  /**
+   * Updates memory usage and frees the concurrency slot of a task that settled.
+   * Called by CacheTask when its output resolves or rejects.
+   *
+   * @param task - The settled task
+   */
+  public recordSettled(task: CacheTask<OUTPUT, INPUT>): void {
+    this.dequeueTask(task);
+    this.runningTasks.delete(task);
+    this.recordConcurrency();
+    if (this.taskMap.get(task.taskKey) === task) {
+      this.usedMemoryBytes += task.usedBytes;
+    }
+  }
+
+  /**
+   * Removes a specific entry from the cache and from the storage adapter.
+   * An in-flight fetch for the entry is aborted.
    * Updates memory usage statistics when an entry is deleted.
    *
    * @param key - The key of the entry to remove
    */
   public delete(key: INPUT): void {
+    this.deleteEntry(this.transformCacheKey(key));
+  }
+
+  /**
+   * Deletes every entry carrying a tag, whether set through set() options
+   * or returned by the fetch function in a CacheEntry.
+   * Stored copies are removed as well, see deleteEntries().
+   *
+   * @param tag - The tag to invalidate
+   * @returns Number of entries deleted from memory
+   */
+  public invalidateTag(tag: string): number {
+    return this.deleteEntries(
+      (task) => task.hasTag(tag),
+      (record) => record.tags?.includes(tag) === true,
+    );
+  }
+
+  /**
+   * Deletes every entry whose input matches a predicate.
+   * Stored copies are removed as well, see deleteEntries().
+   *
+   * @param predicate - Returns true for inputs to delete
+   * @returns Number of entries deleted from memory
+   */
+  public invalidateWhere(predicate: (input: INPUT) => boolean): number {
+    return this.deleteEntries(
+      (task) => predicate(task.input),
+      (record) => predicate(record.input),
+    );
+  }
+
+  /**
+   * Deletes every entry whose cache key starts with a prefix.
+   * Meant for custom string keys from cachePolicy.cacheKeyTransform,
+   * since the default transform hashes its input.
+   * Stored copies are removed as well, see deleteEntries().
+   *
+   * @param prefix - The cache key prefix
+   * @returns Number of entries deleted from memory
+   */
+  public invalidatePrefix(prefix: string): number {
+    const filter = (_: unknown, taskKey: string) => taskKey.startsWith(prefix);
+    return this.deleteEntries(filter, filter);
+  }
+
+  /**
+   * Deletes every entry matching a filter from memory and from the storage adapter.
+   * Records of entries no longer held in memory are only reached when the adapter
+   * implements deleteWhere(), which runs in the background like other storage writes.
+   *
+   * @param filter - Returns true for entries in memory to delete
+   * @param recordFilter - Returns true for stored records to delete
+   * @returns Number of entries deleted from memory
+   */
+  private deleteEntries(
+    filter: (task: CacheTask<OUTPUT, INPUT>, taskKey: string) => boolean,
+    recordFilter: (
+      record: CacheStorageRecord<OUTPUT, INPUT>,
+      taskKey: string,
+    ) => boolean,
+  ): number {
+    const taskKeys: string[] = [];
+    this.taskMap.forEach((task, taskKey) => {
+      if (filter(task, taskKey)) {
+        taskKeys.push(taskKey);
+      }
+    });
+    taskKeys.forEach((taskKey) => this.deleteEntry(taskKey));
+    this.storage?.deleteWhere?.(recordFilter).catch(() => undefined);
+    return taskKeys.length;
+  }
+
+  /**
+   * Removes an entry from memory and from the storage adapter,
+   * aborting its in-flight fetch.
+   *
+   * @param taskKey - Transformed cache key
+   */
+  private deleteEntry(taskKey: string): void {
+    const task = this.taskMap.get(taskKey);
+    if (task) {
+      task.abort(new Error('Error CacheTask deleted'));
+      this.evict(taskKey, task, EvictionReasonType.MANUAL);
+      if (this.hasListeners('delete')) {
+        this.emit('delete', { key: task.input, timings: task.timings });
+      }
+    }
+    this.storage?.delete(taskKey).catch(() => undefined);
+  }
+
+  /**
+   * Removes an entry that can not be served, such as a failed or uncached fetch,
+   * from memory and from the storage adapter without reporting it as an eviction.
+   *
+   * @param key - The key of the entry to remove
+   */
+  public discard(key: INPUT): void {
     const taskKey = this.transformCacheKey(key);
     this.deleteByCacheKey(taskKey);
+    this.storage?.delete(taskKey).catch(() => undefined);
+  }
+
+  /**
+   * Removes an entry from memory and reports the eviction.
+   *
+   * @param taskKey - Transformed cache key
+   * @param task - The evicted task
+   * @param reason - Why the entry is evicted
+   */
+  private evict(
+    taskKey: string,
+    task: CacheTask<OUTPUT, INPUT>,
+    reason: EvictionReasonType,
+  ): void {
+    this.deleteByCacheKey(taskKey, reason);
+    this.performanceMetrics.evictionCounts[reason]++;
+    if (this.hasListeners('evict')) {
+      this.emit('evict', {
+        key: task.input,
+        timings: task.timings,
+        reason,
+        usedBytes: task.usedBytes,
+      });
+    }
+  }
+
+  /**
+   * Reports an expired entry and evicts it from memory.
+   *
+   * @param taskKey - Transformed cache key
+   * @param task - The expired task
+   */
+  private expire(taskKey: string, task: CacheTask<OUTPUT, INPUT>): void {
+    if (this.hasListeners('expire')) {
+      this.emit('expire', { key: task.input, timings: task.timings });
+    }
+    this.evict(taskKey, task, EvictionReasonType.TTL);
+  }
+
+  /**
+   * Reads the settled value of an entry by its transformed cache key without fetching.
+   * Counts as a request against this cacher, which lets it serve as a lower cache tier.
+   *
+   * @param taskKey - The transformed cache key
+   * @returns The entry as a storage record, or undefined unless it holds a fresh value
+   */
+  public async getRecordByCacheKey(
+    taskKey: string,
+  ): Promise<CacheStorageRecord<OUTPUT, INPUT> | undefined> {
+    this.performanceMetrics.usedCount++;
+    const task = this.taskMap.get(taskKey);
+    if (task?.status !== CacheTaskStatusType.ACTIVE) {
+      this.performanceMetrics.totalFetchCount++;
+      return undefined;
+    }
+    this.performanceMetrics.hitKeys.add(taskKey, task.input);
+    this.evictionPolicy.onAccess(taskKey);
+    const startTime = Date.now();
+    try {
+      const value = await task.output();
+      this.recordSuccessMetrics(startTime, true);
+      return {
+        input: task.input,
+        value,
+        resolvedAt: task.resolvedAt,
+        expiresAt: task.expiresAt,
+        ...(task.tags.length > 0 ? { tags: task.tags.slice() } : {}),
+      };
+    } catch (error) {
+      this.recordErrorMetrics(startTime, true);
+      return undefined;
+    }
   }
 
-  public deleteByCacheKey(taskKey: string): void {
+  public deleteByCacheKey(taskKey: string, reason?: EvictionReasonType): void {
     if (this.taskMap.has(taskKey)) {
-      this.performanceMetrics.releasedMemoryBytes +=
-        this.taskMap.get(taskKey).usedBytes;
+      const task = this.taskMap.get(taskKey);
+      this.performanceMetrics.releasedMemoryBytes += task.usedBytes;
+      this.untrackTask(task);
+      this.evictionPolicy.onRemove(taskKey, reason);
     }
     this.taskMap.delete(taskKey);
   }
 
+  /**
+   * Gets the cache task currently held for a key without accessing it.
+   *
+   * @param key - The key to look up
+   * @returns The cache task, or undefined if the key is not cached
+   */
+  public getTask(key: INPUT): CacheTask<OUTPUT, INPUT> | undefined {
+    return this.taskMap.get(this.transformCacheKey(key));
+  }
+
   /**
    * Checks if a key exists in the cache.
    *
@@ -493,12 +1781,35 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
   }
 
   /**
-   * Removes all entries from the cache and stops the cleanup timer.
-   * This effectively resets the cache to an empty state.
+   * Removes all entries from the cache and stops the cleanup timer and the keepWarm()
+   * schedules. This effectively resets the in-memory cache to an empty state;
+   * values persisted by the storage adapter are kept. In-flight fetches are aborted.
    */
   public clear(): void {
-    // Clear all cache data
+    // Abort in-flight fetches and clear all cache data
+    const clearError = new Error('Error CacheTask cleared');
+    const tasks = this.tasks;
+    tasks.forEach((task) => task.abort(clearError));
     this.taskMap.clear();
+    this.queuedTasks.clear();
+    this.queueWaitTimers.forEach((timer) => clearTimeout(timer));
+    this.queueWaitTimers.clear();
+    clearTimeout(this.rateLimitTimer);
+    this.rateLimitTimer = undefined;
+    this.unkeepWarm();
+    this.runningTasks.clear();
+    this.usedMemoryBytes = 0;
+    this.evictionPolicy.clear();
+    if (this.hasListeners('evict')) {
+      tasks.forEach((task) =>
+        this.emit('evict', {
+          key: task.input,
+          timings: task.timings,
+          reason: EvictionReasonType.MANUAL,
+          usedBytes: task.usedBytes,
+        }),
+      );
+    }
 
     // Reset performance metrics to initial state
     this.resetPerformanceMetrics();
@@ -512,17 +1823,31 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
    */
   private resetPerformanceMetrics(): void {
     this.performanceMetrics = {
-      responseTimes: [],
-      cachedResponseTimes: [],
-      fetchResponseTimes: [],
+      hitLatency: new WindowedLatencyHistogram(LatencyHistogramOptions),
+      missLatency: new WindowedLatencyHistogram(LatencyHistogramOptions),
+      hitKeys: new SpaceSaving(TopKeysTrackedCount),
+      missKeys: new SpaceSaving(TopKeysTrackedCount),
+      fetchTimeKeys: new SpaceSaving(TopKeysTrackedCount),
       totalFetchCount: 0,
       currentConcurrentRequests: 0,
       maxConcurrentRequestsReached: 0,
       rejectedRequestsCount: 0,
       overMemoryLimitCount: 0,
       usedCount: 0,
+      staleHitCount: 0,
+      storageHitCount: 0,
       releasedMemoryBytes: 0,
+      peakOvershootBytes: 0,
+      peakEntryOvershoot: 0,
       timeoutCount: 0,
+      evictionCounts: {
+        [EvictionReasonType.MEMORY]: 0,
+        [EvictionReasonType.CAPACITY]: 0,
+        [EvictionReasonType.TTL]: 0,
+        [EvictionReasonType.MANUAL]: 0,
+      },
+      fetchAttemptCount: 0,
+      retryCount: 0,
       errorCount: 0,
       createdAt: Date.now(),
       recentResponseTimes: [],
@@ -606,6 +1931,34 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     };
   }
 
+  /**
+   * Lists the keys that are requested most, miss most often, cost the most fetch time
+   * or use the most memory. Requests and fetch time are counted since creation or the
+   * last clear() in a fixed-memory summary of the heaviest keys, so values may be
+   * overestimated by up to the reported error; bytes are exact and cover the held entries.
+   *
+   * @param options - Measure to rank by and most keys to return
+   * @returns The keys, highest value first
+   */
+  public topKeys(options: TopKeysOptions): TopKey<INPUT>[] {
+    const { by, limit = DefaultTopKeysLimit } = options;
+    if (by === 'bytes') {
+      return this.tasks
+        .filter((task) => task.usedBytes > 0)
+        .sort((a, b) => b.usedBytes - a.usedBytes)
+        .slice(0, Math.max(0, limit))
+        .map((task) => ({ key: task.input, value: task.usedBytes, error: 0 }));
+    }
+    const summary = {
+      hits: this.performanceMetrics.hitKeys,
+      misses: this.performanceMetrics.missKeys,
+      fetchTime: this.performanceMetrics.fetchTimeKeys,
+    }[by];
+    return summary
+      .top(limit)
+      .map(({ item, count, error }) => ({ key: item, value: count, error }));
+  }
+
   /**
    * Calculates cache efficiency metrics.
    */
@@ -616,21 +1969,8 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     hitRate: number,
   ) {
     // Estimate time saved based on average response times
-    const avgFetchTime =
-      this.performanceMetrics.fetchResponseTimes?.length > 0
-        ? this.performanceMetrics.fetchResponseTimes.reduce(
-            (sum, time) => sum + time,
-            0,
-          ) / this.performanceMetrics.fetchResponseTimes.length
-        : 0;
-
-    const avgCachedTime =
-      this.performanceMetrics.cachedResponseTimes?.length > 0
-        ? this.performanceMetrics.cachedResponseTimes.reduce(
-            (sum, time) => sum + time,
-            0,
-          ) / this.performanceMetrics.cachedResponseTimes.length
-        : 0;
+    const avgFetchTime = this.performanceMetrics.missLatency.total.mean;
+    const avgCachedTime = this.performanceMetrics.hitLatency.total.mean;
 
     const timeSavedMs =
       avgFetchTime > 0 && cacheHits > 0
@@ -640,7 +1980,9 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     return {
       hitRate: Number(hitRate.toFixed(2)),
       hits: cacheHits,
+      staleHits: this.performanceMetrics.staleHitCount,
       misses: cacheMisses,
+      storageHits: this.performanceMetrics.storageHitCount,
       totalRequests,
       timeSavedMs: timeSavedMs ? Number(timeSavedMs.toFixed(0)) : undefined,
     };
@@ -650,20 +1992,9 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
    * Calculates advanced performance metrics.
    */
   private calculateAdvancedPerformanceMetrics() {
-    const { cachedResponseTimes = [], fetchResponseTimes = [] } =
-      this.performanceMetrics;
-
-    const avgCachedResponseTime =
-      cachedResponseTimes.length > 0
-        ? cachedResponseTimes.reduce((sum, time) => sum + time, 0) /
-          cachedResponseTimes.length
-        : 0;
-
-    const avgFetchResponseTime =
-      fetchResponseTimes.length > 0
-        ? fetchResponseTimes.reduce((sum, time) => sum + time, 0) /
-          fetchResponseTimes.length
-        : 0;
+    const { hitLatency, missLatency } = this.performanceMetrics;
+    const avgCachedResponseTime = hitLatency.total.mean;
+    const avgFetchResponseTime = missLatency.total.mean;
 
     const performanceGain =
       avgFetchResponseTime > 0
@@ -676,20 +2007,46 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
           )
         : 0;
 
-    const allResponseTimes = this.performanceMetrics.responseTimes;
-    const sortedTimes = [...allResponseTimes].sort((a, b) => a - b);
-    const p95Index = Math.ceil(sortedTimes.length * 0.95) - 1;
-    const p95ResponseTime = sortedTimes.length > 0 ? sortedTimes[p95Index] : 0;
+    const all = new LatencyHistogram(LatencyRelativeAccuracy);
+    all.merge(hitLatency.total);
+    all.merge(missLatency.total);
 
     return {
       avgCachedResponseTime: Number(avgCachedResponseTime.toFixed(2)),
       avgFetchResponseTime: Number(avgFetchResponseTime.toFixed(2)),
       performanceGain,
-      p95ResponseTime: Number(p95ResponseTime.toFixed(2)),
-      fastestResponse:
-        allResponseTimes.length > 0 ? Math.min(...allResponseTimes) : 0,
-      slowestResponse:
-        allResponseTimes.length > 0 ? Math.max(...allResponseTimes) : 0,
+      p95ResponseTime: Number(all.quantile(0.95).toFixed(2)),
+      fastestResponse: all.min,
+      slowestResponse: all.max,
+      hitLatency: this.calculateLatencyStatistics(hitLatency),
+      missLatency: this.calculateLatencyStatistics(missLatency),
+    };
+  }
+
+  /**
+   * Calculates the percentiles of a response time histogram and its recent windows.
+   *
+   * @param latency - The response time histogram
+   */
+  private calculateLatencyStatistics(
+    latency: WindowedLatencyHistogram,
+  ): LatencyStatistics {
+    const now = Date.now();
+    const percentiles = (histogram: LatencyHistogram): LatencyPercentiles => ({
+      count: histogram.count,
+      mean: Number(histogram.mean.toFixed(2)),
+      p50: Number(histogram.quantile(0.5).toFixed(2)),
+      p90: Number(histogram.quantile(0.9).toFixed(2)),
+      p99: Number(histogram.quantile(0.99).toFixed(2)),
+      p999: Number(histogram.quantile(0.999).toFixed(2)),
+    });
+    return {
+      ...percentiles(latency.total),
+      windows: {
+        last1m: percentiles(latency.window(LatencyWindowsMs.last1m, now)),
+        last5m: percentiles(latency.window(LatencyWindowsMs.last5m, now)),
+        last15m: percentiles(latency.window(LatencyWindowsMs.last15m, now)),
+      },
     };
   }
 
@@ -697,16 +2054,14 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
    * Calculates operational metrics.
    */
   private calculateOperationalMetrics() {
-    const queuedTasks = this.tasks.filter(
-      (t) => t.status === CacheTaskStatusType.QUEUED,
-    );
-
     return {
       activeRequests: this.performanceMetrics.currentConcurrentRequests,
-      queuedRequests: queuedTasks.length,
+      queuedRequests: this.queuedTasks.size,
       concurrencyLimit: this.concurrency,
       rejectedRequests: this.performanceMetrics.rejectedRequestsCount,
       peakConcurrency: this.performanceMetrics.maxConcurrentRequestsReached,
+      fetchAttempts: this.performanceMetrics.fetchAttemptCount,
+      retries: this.performanceMetrics.retryCount,
     };
   }
 
@@ -730,30 +2085,40 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
       cleanupCount: this.performanceMetrics.overMemoryLimitCount,
       memoryReclaimed: sizeFormat(this.performanceMetrics.releasedMemoryBytes),
       memoryReclaimedBytes: this.performanceMetrics.releasedMemoryBytes,
+      peakOvershoot: sizeFormat(this.performanceMetrics.peakOvershootBytes),
+      peakOvershootBytes: this.performanceMetrics.peakOvershootBytes,
+      peakEntryOvershoot: this.performanceMetrics.peakEntryOvershoot,
+      evictions: { ...this.performanceMetrics.evictionCounts },
     };
   }
 
   /**
-   * Calculates inventory metrics.
+   * Calculates inventory metrics in a single pass over the entries,
+   * without copying them or spreading their counts into Math.max().
    */
   private calculateInventoryMetrics() {
-    const usedCounts = this.tasks.map((t) => t.usedCount);
-    const hasData = usedCounts.length > 0;
+    const hasData = this.cacheCount > 0;
 
     const avgItemUsage = hasData
       ? Number((this.performanceMetrics.usedCount / this.cacheCount).toFixed(2))
       : 0;
 
-    const singleUseItems = usedCounts.filter((count) => count === 1).length;
-    const highValueItems = usedCounts.filter(
-      (count) => count > avgItemUsage,
-    ).length;
+    let maxItemUsage = 0;
+    let minItemUsage = hasData ? Infinity : 0;
+    let singleUseItems = 0;
+    let highValueItems = 0;
+    this.taskMap.forEach(({ usedCount }) => {
+      maxItemUsage = Math.max(maxItemUsage, usedCount);
+      minItemUsage = Math.min(minItemUsage, usedCount);
+      if (usedCount === 1) singleUseItems++;
+      if (usedCount > avgItemUsage) highValueItems++;
+    });
 
     return {
       totalItems: this.cacheCount,
       avgItemUsage,
-      maxItemUsage: hasData ? Math.max(...usedCounts) : 0,
-      minItemUsage: hasData ? Math.min(...usedCounts) : 0,
+      maxItemUsage,
+      minItemUsage,
       singleUseItems,
       highValueItems,
     };
@@ -779,6 +2144,10 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
 
     if (this.usedMemoryBytes > this.maxMemoryMegaByte * 0.9) healthScore -= 20;
 
+    const breaker = this.circuitBreaker;
+    const isCircuitOpen = breaker && breaker.state !== CircuitStateType.CLOSED;
+    if (isCircuitOpen) healthScore -= 30;
+
     const issues: string[] = [];
     if (hitRate < 50) issues.push('Low cache hit rate (<50%)');
     if (errorRate > 5)
@@ -789,6 +2158,12 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
       issues.push(
         `${this.performanceMetrics.timeoutCount} timeout(s) occurred`,
       );
+    if (isCircuitOpen)
+      issues.push(
+        breaker.state === CircuitStateType.OPEN
+          ? 'Circuit breaker open'
+          : 'Circuit breaker half-open',
+      );
 
     let status: 'excellent' | 'good' | 'warning' | 'critical';
     if (healthScore >= 90) status = 'excellent';
@@ -803,6 +2178,13 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
       errorRate: Number(errorRate.toFixed(2)),
       recentErrors: this.performanceMetrics.errorCount,
       timeouts: this.performanceMetrics.timeoutCount,
+      circuitBreaker: breaker && {
+        state: breaker.state,
+        consecutiveFailures: breaker.failures,
+        errorRate: Number(breaker.errorRate.toFixed(2)),
+        rejectedFetches: breaker.rejectedCount,
+        retryAfterMs: breaker.retryAfterMs,
+      },
     };
   }
 
@@ -875,22 +2257,27 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
     // Clean up deprecated tasks first
     this.cleanupExpiredTasks();
 
-    // Check if memory cleanup is needed
-    if (this.shouldCleanupMemory()) {
-      this.performanceMetrics.overMemoryLimitCount++;
-      this.flushMemory(this.usedMemoryBytes - this.minMemoryByte);
-    }
+    // Free memory if usage exceeds the limit
+    this.enforceMemoryLimit();
   }
 
   /**
-   * Removes all deprecated tasks efficiently.
+   * Removes expired tasks.
+   * Statuses follow the clock rather than changing on a transition, so they can not be
+   * counted as they change; expired entries are found by this scan on the flush timer instead.
    */
   private cleanupExpiredTasks(): void {
-    const expiredTasks = this.tasks.filter(
-      (task) => task.status === CacheTaskStatusType.EXPIRED,
-    );
+    const expiredTasks: [string, CacheTask<OUTPUT, INPUT>][] = [];
+    this.taskMap.forEach((task, taskKey) => {
+      if (
+        task.status === CacheTaskStatusType.EXPIRED &&
+        !this.isServingStaleOnOpenCircuit(task)
+      ) {
+        expiredTasks.push([taskKey, task]);
+      }
+    });
 
-    expiredTasks.forEach((task) => this.delete(task.input));
+    expiredTasks.forEach(([taskKey, task]) => this.expire(taskKey, task));
   }
 
   /**
@@ -904,38 +2291,46 @@ export class PromiseCacher<OUTPUT = any, INPUT = any> {
   }
 
   /**
-   * Performs intelligent memory cleanup by removing the least valuable cache entries.
-   * Uses a scoring algorithm to determine which entries to remove first.
-   * Optimized to avoid unnecessary array operations.
+   * Frees memory by evicting the entries picked by the eviction policy.
+   * Entries still being fetched are never evicted.
    *
-   * @param releaseMemoryBytes - Target amount of memory to free in bytes
+   * @param memoryToBeReleasedBytes - Target amount of memory to free in bytes
+   * @param sparedKey - Entry that is not evicted
    */
-  private flushMemory(memoryToBeReleasedBytes: number): void {
-    // Get active tasks with their scores
-    const scoredTasks = this.getActiveTasks()
-      .map((task) => ({ task, score: task.score() }))
-      .sort((a, b) => a.score - b.score); // Sort by score (lowest first)
-
-    // Release tasks until we've freed enough memory
+  private flushMemory(
+    memoryToBeReleasedBytes: number,
+    sparedKey?: string,
+  ): void {
     let releasedBytes = 0;
-    for (const { task } of scoredTasks) {
+    while (releasedBytes < memoryToBeReleasedBytes) {
+      const taskKey = this.evictionPolicy.selectVictim(
+        (key) => key !== sparedKey && this.isEvictable(key),
+      );
+      if (taskKey === undefined) return;
+      const task = this.taskMap.get(taskKey);
       releasedBytes += task.usedBytes;
-      this.delete(task.input);
-
-      if (releasedBytes >= memoryToBeReleasedBytes) {
-        break;
-      }
+      // Evict from memory only, the storage adapter keeps its copy
+      this.evict(taskKey, task, EvictionReasonType.MEMORY);
     }
   }
 
   /**
-   * Gets all active tasks efficiently.
+   * Checks whether an entry may be evicted: it must hold a settled value or error
+   * and must not be pinned by keepWarm().
+   *
+   * @param taskKey - Transformed cache key
+   * @returns True if the entry exists, is settled and is not pinned
    */
-  private getActiveTasks(): CacheTask<OUTPUT, INPUT>[] {
-    return this.tasks.filter(
-      (task) =>
-        task.status === CacheTaskStatusType.ACTIVE ||
-        task.status === CacheTaskStatusType.FAILED,
+  private isEvictable = (taskKey: string): boolean => {
+    if (this.warmKeys.get(taskKey)?.options.pinned) {
+      return false;
+    }
+    const status = this.taskMap.get(taskKey)?.status;
+    return (
+      status === CacheTaskStatusType.ACTIVE ||
+      status === CacheTaskStatusType.STALE ||
+      status === CacheTaskStatusType.EXPIRED ||
+      status === CacheTaskStatusType.FAILED
     );
-  }
+  };
 }
@@ -0,0 +1,108 @@
+import { QueueFullError, QueueTimeoutError } from './errors';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - bounded fetch queue', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async (key: string) => {
+      await delay(30);
+      return `value-${key}`;
+    });
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  describe('maxQueueLength', () => {
+    it('should reject misses that would wait in a full queue', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1, maxQueueLength: 1 },
+      });
+
+      const running = cacher.get('a');
+      const queued = cacher.get('b');
+      const rejected = cacher.get('c');
+
+      await expect(rejected).rejects.toBeInstanceOf(QueueFullError);
+      await expect(Promise.all([running, queued])).resolves.toEqual([
+        'value-a',
+        'value-b',
+      ]);
+      expect(mockFetchFn).toHaveBeenCalledTimes(2);
+      expect(cacher.statistics().operations.rejectedRequests).toBe(1);
+    });
+
+    it('should not cache the rejection', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1, maxQueueLength: 0 },
+      });
+
+      const running = cacher.get('a');
+      await expect(cacher.get('b')).rejects.toBeInstanceOf(QueueFullError);
+      await running;
+      await delay(0);
+
+      await expect(cacher.get('b')).resolves.toBe('value-b');
+    });
+
+    it('should only reject misses that have to wait', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 2, maxQueueLength: 0 },
+      });
+
+      await expect(
+        Promise.all([cacher.get('a'), cacher.get('b')]),
+      ).resolves.toEqual(['value-a', 'value-b']);
+      expect(cacher.statistics().operations.rejectedRequests).toBe(0);
+    });
+
+    it('should share the queue slot of a pending miss', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1, maxQueueLength: 1 },
+      });
+
+      const requests = [cacher.get('a'), cacher.get('b'), cacher.get('b')];
+
+      await expect(Promise.all(requests)).resolves.toEqual([
+        'value-a',
+        'value-b',
+        'value-b',
+      ]);
+    });
+  });
+
+  describe('maxQueueWaitMs', () => {
+    it('should reject fetches that wait too long for a slot', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1, maxQueueWaitMs: 10 },
+      });
+
+      const running = cacher.get('a');
+      const queued = cacher.get('b');
+
+      await expect(queued).rejects.toBeInstanceOf(QueueTimeoutError);
+      await expect(running).resolves.toBe('value-a');
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+      expect(cacher.statistics().operations.rejectedRequests).toBe(1);
+    });
+
+    it('should not time out fetches that got a slot in time', async () => {
+      cacher = new PromiseCacher(mockFetchFn, {
+        fetchingPolicy: { concurrency: 1, maxQueueWaitMs: 50 },
+      });
+
+      const requests = [cacher.get('a'), cacher.get('b')];
+
+      await expect(Promise.all(requests)).resolves.toEqual([
+        'value-a',
+        'value-b',
+      ]);
+      expect(cacher.statistics().operations.rejectedRequests).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { QueueFullError } from './errors';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - rate limit', () => {
+  let cacher: PromiseCacher<string, string>;
+  let startedAt: number[];
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    startedAt = [];
+    mockFetchFn = jest.fn(async (key: string) => {
+      startedAt.push(Date.now());
+      return `value-${key}`;
+    });
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  it('should start a burst at once and space out the rest', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { rateLimit: { requests: 2, intervalMs: 100 } },
+    });
+    const begin = Date.now();
+
+    await expect(
+      Promise.all(['a', 'b', 'c', 'd'].map((key) => cacher.get(key))),
+    ).resolves.toEqual(['value-a', 'value-b', 'value-c', 'value-d']);
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(4);
+    expect(startedAt[1] - begin).toBeLessThan(40);
+    expect(startedAt[2] - begin).toBeGreaterThanOrEqual(45);
+    expect(startedAt[3] - begin).toBeGreaterThanOrEqual(95);
+  });
+
+  it('should limit bursts to the burst size', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: {
+        rateLimit: { requests: 10, intervalMs: 500, burst: 1 },
+      },
+    });
+
+    cacher.get('a').catch(() => undefined);
+    cacher.get('b').catch(() => undefined);
+    await delay(10);
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    await delay(50);
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start rate-limited fetches in priority order', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { rateLimit: { requests: 1, intervalMs: 20 } },
+    });
+
+    await Promise.all([
+      cacher.get('first'),
+      cacher.get('low', { priority: 0 }),
+      cacher.get('high', { priority: 5 }),
+    ]);
+
+    expect(mockFetchFn.mock.calls.map(([key]) => key)).toEqual([
+      'first',
+      'high',
+      'low',
+    ]);
+  });
+
+  it('should combine with the concurrency limit', async () => {
+    const slowFetchFn = jest.fn(async (key: string) => {
+      await delay(30);
+      return `value-${key}`;
+    });
+    cacher = new PromiseCacher(slowFetchFn, {
+      fetchingPolicy: {
+        concurrency: 1,
+        rateLimit: { requests: 100, intervalMs: 1000 },
+      },
+    });
+
+    cacher.get('a').catch(() => undefined);
+    cacher.get('b').catch(() => undefined);
+    await delay(10);
+
+    expect(slowFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply maxQueueLength to misses waiting for the rate limit', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: {
+        rateLimit: { requests: 1, intervalMs: 50 },
+        maxQueueLength: 1,
+      },
+    });
+
+    const started = cacher.get('a');
+    const queued = cacher.get('b');
+    const rejected = cacher.get('c');
+
+    await expect(rejected).rejects.toBeInstanceOf(QueueFullError);
+    await expect(Promise.all([started, queued])).resolves.toEqual([
+      'value-a',
+      'value-b',
+    ]);
+  });
+
+  it('should not start queued fetches after clear', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { rateLimit: { requests: 1, intervalMs: 30 } },
+    });
+
+    cacher.get('a').catch(() => undefined);
+    cacher.get('b').catch(() => undefined);
+    cacher.clear();
+    await delay(50);
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+});
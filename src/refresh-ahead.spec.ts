@@ -0,0 +1,124 @@
+import { ErrorTaskPolicyType, ExpirationStrategyType } from './define';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - refresh-ahead', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn();
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  const createCacher = (
+    cachePolicy: {
+      expirationStrategy?: ExpirationStrategyType;
+      errorTaskPolicy?: ErrorTaskPolicyType;
+    } = {},
+  ) =>
+    new PromiseCacher<string, string>(mockFetchFn, {
+      cachePolicy: { ttlMs: 100, refreshAheadRatio: 0.5, ...cachePolicy },
+    });
+
+  it('should clamp the ratio between 0 and 1', () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      cachePolicy: { refreshAheadRatio: 1.5 },
+    });
+    expect(cacher.refreshAheadRatio).toBe(1);
+    cacher.clear();
+
+    cacher = new PromiseCacher(mockFetchFn);
+    expect(cacher.refreshAheadRatio).toBeUndefined();
+  });
+
+  it('should not refresh before the ratio of the TTL has passed', async () => {
+    cacher = createCacher();
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    await delay(20);
+    await cacher.get('key');
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh in the background and keep serving the current value', async () => {
+    cacher = createCacher();
+    mockFetchFn
+      .mockResolvedValueOnce('first-value')
+      .mockImplementationOnce(async () => {
+        await delay(20);
+        return 'second-value';
+      });
+
+    await cacher.get('key');
+    await delay(60);
+
+    const startTime = Date.now();
+    expect(await cacher.get('key')).toBe('first-value');
+    expect(Date.now() - startTime).toBeLessThan(15);
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+
+    // Refresh still pending - no second refresh is started
+    expect(await cacher.get('key')).toBe('first-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+
+    await delay(30);
+    expect(await cacher.get('key')).toBe('second-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count hits during a refresh as fresh hits', async () => {
+    cacher = createCacher();
+    mockFetchFn.mockImplementation(async () => {
+      await delay(20);
+      return 'value';
+    });
+    const staleHits: boolean[] = [];
+    cacher.on('hit', ({ stale }) => staleHits.push(stale));
+
+    await cacher.get('key');
+    await delay(60);
+    await cacher.get('key');
+    await cacher.get('key');
+
+    expect(staleHits).toEqual([false, false]);
+    expect(cacher.statistics().efficiency.staleHits).toBe(0);
+  });
+
+  it('should keep the current value when the refresh fails', async () => {
+    cacher = createCacher({ errorTaskPolicy: ErrorTaskPolicyType.CACHE });
+    mockFetchFn
+      .mockResolvedValueOnce('first-value')
+      .mockRejectedValueOnce(new Error('upstream down'))
+      .mockResolvedValueOnce('third-value');
+
+    await cacher.get('key');
+    await delay(60);
+
+    expect(await cacher.get('key')).toBe('first-value');
+    await delay(10);
+
+    // The failed refresh is reverted, so the next hit tries again
+    expect(await cacher.get('key')).toBe('first-value');
+    await delay(10);
+    expect(await cacher.get('key')).toBe('third-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not refresh ahead with the IDLE strategy', async () => {
+    cacher = createCacher({ expirationStrategy: ExpirationStrategyType.IDLE });
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    await delay(60);
+    await cacher.get('key');
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+});
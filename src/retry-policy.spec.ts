@@ -0,0 +1,149 @@
+import { cacheEntry } from './cache-entry';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - retry policy', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn();
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  it('should not retry without a retry policy', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+    mockFetchFn.mockRejectedValue(new Error('transient'));
+
+    await expect(cacher.get('key')).rejects.toThrow('transient');
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry transient errors before callers see them', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { retry: { baseDelayMs: 1, jitter: false } },
+    });
+    mockFetchFn
+      .mockRejectedValueOnce(new Error('transient'))
+      .mockRejectedValueOnce(new Error('transient'))
+      .mockResolvedValueOnce('value');
+
+    const results = await Promise.all([cacher.get('key'), cacher.get('key')]);
+
+    expect(results).toEqual(['value', 'value']);
+    expect(mockFetchFn).toHaveBeenCalledTimes(3);
+    expect(cacher.getTask('key').attempts).toBe(3);
+  });
+
+  it('should reject with the last error after maxAttempts', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { retry: { maxAttempts: 2, baseDelayMs: 1 } },
+    });
+    mockFetchFn
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'));
+
+    await expect(cacher.get('key')).rejects.toThrow('second');
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry errors accepted by the predicate', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: {
+        retry: {
+          baseDelayMs: 1,
+          retryable: (error) => error.message !== 'not found',
+        },
+      },
+    });
+    mockFetchFn.mockRejectedValue(new Error('not found'));
+
+    await expect(cacher.get('key')).rejects.toThrow('not found');
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry errors returned through a CacheEntry', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { retry: { baseDelayMs: 1 } },
+    });
+    mockFetchFn.mockResolvedValue(cacheEntry(new Error('not found')));
+
+    await expect(cacher.get('key')).rejects.toThrow('not found');
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count retries against the overall timeout', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: {
+        timeoutMs: 30,
+        retry: { maxAttempts: 10, baseDelayMs: 20, jitter: false },
+      },
+    });
+    mockFetchFn.mockRejectedValue(new Error('transient'));
+
+    await expect(cacher.get('key')).rejects.toThrow('timeout');
+    await delay(50);
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should hold the concurrency slot while retrying', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: {
+        concurrency: 1,
+        retry: { baseDelayMs: 10, jitter: false },
+      },
+    });
+    mockFetchFn
+      .mockRejectedValueOnce(new Error('transient'))
+      .mockResolvedValueOnce('first')
+      .mockResolvedValueOnce('second');
+
+    const first = cacher.get('first');
+    const second = cacher.get('second');
+
+    expect(await first).toBe('first');
+    expect(await second).toBe('second');
+    expect(mockFetchFn.mock.calls.map((call) => call[0])).toEqual([
+      'first',
+      'first',
+      'second',
+    ]);
+  });
+
+  it('should stop retrying once the entry is deleted', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { retry: { baseDelayMs: 50, jitter: false } },
+    });
+    mockFetchFn.mockRejectedValue(new Error('transient'));
+
+    const promise = cacher.get('key');
+    await delay(10);
+    cacher.delete('key');
+
+    await expect(promise).rejects.toThrow('deleted');
+    await delay(60);
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report attempts and retries in statistics', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { retry: { baseDelayMs: 1 } },
+    });
+    mockFetchFn
+      .mockRejectedValueOnce(new Error('transient'))
+      .mockResolvedValueOnce('value-1')
+      .mockResolvedValueOnce('value-2');
+
+    await cacher.get('key1');
+    await cacher.get('key2');
+
+    const { fetchAttempts, retries } = cacher.statistics().operations;
+    expect(fetchAttempts).toBe(3);
+    expect(retries).toBe(1);
+  });
+});
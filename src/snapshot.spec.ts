@@ -0,0 +1,180 @@
+import { CacheTaskStatusType, ErrorTaskPolicyType } from './define';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - snapshots', () => {
+  let source: PromiseCacher<string, string>;
+  let target: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn(async (key: string) => {
+      if (key.startsWith('bad')) {
+        throw new Error(`failed ${key}`);
+      }
+      return `value-${key}`;
+    });
+  });
+
+  afterEach(() => {
+    source?.clear();
+    target?.clear();
+    source = undefined;
+    target = undefined;
+  });
+
+  describe('exportSnapshot', () => {
+    it('should capture fresh entries with their timing and usage', async () => {
+      source = new PromiseCacher(mockFetchFn, { cachePolicy: { ttlMs: 1000 } });
+      await source.get('a');
+      await source.get('a');
+      source.set('b', 'manual', { tags: ['config'] });
+      await delay(0);
+      const task = source.getTask('a');
+
+      const snapshot = await source.exportSnapshot();
+
+      expect(snapshot.exportedAt).toBeGreaterThanOrEqual(task.resolvedAt);
+      expect(snapshot.entries).toHaveLength(2);
+      expect(snapshot.entries[0]).toEqual({
+        input: 'a',
+        key: expect.any(String),
+        value: 'value-a',
+        createdAt: task.createdAt,
+        resolvedAt: task.resolvedAt,
+        lastAccessedAt: task.lastAccessedAt,
+        usedCount: 2,
+        ttlMs: 1000,
+        remainingTtlMs: expect.any(Number),
+        tags: [],
+      });
+      expect(snapshot.entries[0].remainingTtlMs).toBeLessThanOrEqual(1000);
+      expect(snapshot.entries[1].tags).toEqual(['config']);
+      expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    });
+
+    it('should leave out pending, failed and expired entries', async () => {
+      source = new PromiseCacher(mockFetchFn, {
+        cachePolicy: {
+          ttlMs: 1000,
+          errorTaskPolicy: ErrorTaskPolicyType.CACHE,
+        },
+      });
+      await source.get('a');
+      await source.get('bad-1').catch(() => undefined);
+      source.set('expired', 'old', { ttlMs: 1 });
+      source.set('pending', new Promise<string>(() => undefined));
+      await delay(10);
+
+      const snapshot = await source.exportSnapshot();
+
+      expect(snapshot.entries.map(({ input }) => input)).toEqual(['a']);
+    });
+
+    it('should not count as a request', async () => {
+      source = new PromiseCacher(mockFetchFn);
+      await source.get('a');
+
+      await source.exportSnapshot();
+
+      expect(source.statistics().efficiency.totalRequests).toBe(1);
+      expect(source.getTask('a').usedCount).toBe(1);
+    });
+  });
+
+  describe('importSnapshot', () => {
+    it('should restore entries without fetching', async () => {
+      source = new PromiseCacher(mockFetchFn);
+      await source.get('a');
+      await source.get('b');
+      const snapshot = await source.exportSnapshot();
+      target = new PromiseCacher(mockFetchFn);
+
+      expect(target.importSnapshot(snapshot)).toBe(2);
+
+      expect(await target.get('a')).toBe('value-a');
+      expect(await target.get('b')).toBe('value-b');
+      expect(mockFetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the original timing and usage', async () => {
+      source = new PromiseCacher(mockFetchFn, { cachePolicy: { ttlMs: 80 } });
+      await source.get('a');
+      await source.get('a');
+      const original = source.getTask('a');
+      const snapshot = await source.exportSnapshot();
+      await delay(20);
+      target = new PromiseCacher(mockFetchFn, { cachePolicy: { ttlMs: 80 } });
+
+      target.importSnapshot(snapshot);
+      await delay(0);
+
+      const task = target.getTask('a');
+      expect(task.createdAt).toBe(original.createdAt);
+      expect(task.resolvedAt).toBe(original.resolvedAt);
+      expect(task.usedCount).toBe(2);
+      expect(task.status).toBe(CacheTaskStatusType.ACTIVE);
+
+      await delay(70);
+      expect(task.status).toBe(CacheTaskStatusType.EXPIRED);
+    });
+
+    it('should keep per-entry TTLs and tags', async () => {
+      source = new PromiseCacher(mockFetchFn);
+      source.set('a', 'value', { ttlMs: 5000, tags: ['config'] });
+      await delay(0);
+      const snapshot = await source.exportSnapshot();
+      target = new PromiseCacher(mockFetchFn, { cachePolicy: { ttlMs: 10 } });
+
+      target.importSnapshot(snapshot);
+      await delay(20);
+
+      expect(target.getTask('a').ttlMs).toBe(5000);
+      expect(target.getTask('a').status).toBe(CacheTaskStatusType.ACTIVE);
+      expect(target.invalidateTag('config')).toBe(1);
+    });
+
+    it('should skip entries that expired since the export', async () => {
+      source = new PromiseCacher(mockFetchFn, { cachePolicy: { ttlMs: 20 } });
+      await source.get('a');
+      const snapshot = await source.exportSnapshot();
+      await delay(30);
+      target = new PromiseCacher(mockFetchFn);
+
+      expect(target.importSnapshot(snapshot)).toBe(0);
+      expect(target.has('a')).toBe(false);
+    });
+
+    it('should keep entries already held', async () => {
+      source = new PromiseCacher(mockFetchFn);
+      source.set('a', 'old');
+      await delay(0);
+      const snapshot = await source.exportSnapshot();
+      target = new PromiseCacher(mockFetchFn);
+      await target.get('a');
+
+      expect(target.importSnapshot(snapshot)).toBe(0);
+      expect(await target.get('a')).toBe('value-a');
+    });
+
+    it('should not write imported entries to the storage adapter', async () => {
+      source = new PromiseCacher(mockFetchFn);
+      await source.get('a');
+      const snapshot = await source.exportSnapshot();
+      const storage = {
+        get: jest.fn().mockResolvedValue(undefined),
+        set: jest.fn().mockResolvedValue(undefined),
+        delete: jest.fn().mockResolvedValue(undefined),
+        clear: jest.fn().mockResolvedValue(undefined),
+      };
+      target = new PromiseCacher(mockFetchFn, {
+        storagePolicy: { adapter: storage },
+      });
+
+      target.importSnapshot(snapshot);
+      await delay(0);
+
+      expect(storage.set).not.toHaveBeenCalled();
+    });
+  });
+});
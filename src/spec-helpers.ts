@@ -0,0 +1,32 @@
+/** Anything holding timers that clear() stops, such as a cacher */
+interface Clearable {
+  clear(): void;
+}
+
+/**
+ * Clears every cacher a spec file registers after each of its tests,
+ * including cachers replaced halfway through a test, so no flush timer outlives the test.
+ * Must be called while the describe block is being defined.
+ *
+ * @returns Registers a cacher to clear and returns it
+ *
+ * @example
+ * ```typescript
+ * const clearLater = clearAfterEach();
+ * const createCacher = (config?: CacherConfig) =>
+ *   clearLater(new PromiseCacher(mockFetchFn, config));
+ * ```
+ */
+export function clearAfterEach(): <CACHER extends Clearable>(
+  cacher: CACHER,
+) => CACHER {
+  let cachers: Clearable[] = [];
+  afterEach(() => {
+    cachers.forEach((cacher) => cacher.clear());
+    cachers = [];
+  });
+  return (cacher) => {
+    cachers.push(cacher);
+    return cacher;
+  };
+}
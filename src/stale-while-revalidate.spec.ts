@@ -0,0 +1,147 @@
+import {
+  CacheTaskStatusType,
+  ErrorTaskPolicyType,
+  ExpirationStrategyType,
+} from './define';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - stale-while-revalidate', () => {
+  let cacher: PromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchFn = jest.fn();
+  });
+
+  afterEach(() => {
+    if (cacher) {
+      cacher.clear();
+      cacher = undefined;
+    }
+    jest.restoreAllMocks();
+  });
+
+  const createCacher = (maxStaleMs?: number) =>
+    new PromiseCacher<string, string>(mockFetchFn, {
+      cachePolicy: {
+        ttlMs: 50,
+        maxStaleMs,
+        expirationStrategy: ExpirationStrategyType.STALE_WHILE_REVALIDATE,
+      },
+    });
+
+  it('should default maxStaleMs to ttlMs', () => {
+    cacher = createCacher();
+    expect(cacher.maxStaleMs).toBe(50);
+  });
+
+  it('should serve the stale value while refreshing in the background', async () => {
+    cacher = createCacher(1000);
+    mockFetchFn
+      .mockResolvedValueOnce('first-value')
+      .mockImplementationOnce(async () => {
+        await delay(30);
+        return 'second-value';
+      });
+
+    expect(await cacher.get('key')).toBe('first-value');
+    await delay(70);
+
+    const startTime = Date.now();
+    expect(await cacher.get('key')).toBe('first-value');
+    expect(Date.now() - startTime).toBeLessThan(20);
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+
+    // Refresh still pending - stale value is served again without refetching
+    expect(await cacher.get('key')).toBe('first-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+
+    await delay(50);
+    expect(await cacher.get('key')).toBe('second-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report the stale status inside the max-staleness window', async () => {
+    cacher = createCacher(1000);
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    await delay(70);
+
+    const task = (cacher as any).taskMap.values().next().value;
+    expect(task.status).toBe(CacheTaskStatusType.STALE);
+  });
+
+  it('should make callers wait once the max-staleness window has passed', async () => {
+    cacher = createCacher(20);
+    mockFetchFn
+      .mockResolvedValueOnce('first-value')
+      .mockImplementationOnce(async () => {
+        await delay(30);
+        return 'second-value';
+      });
+
+    await cacher.get('key');
+    await delay(100);
+
+    expect(await cacher.get('key')).toBe('second-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep serving the stale value when the refresh fails', async () => {
+    cacher = createCacher(1000);
+    mockFetchFn
+      .mockResolvedValueOnce('first-value')
+      .mockRejectedValueOnce(new Error('upstream down'))
+      .mockResolvedValueOnce('third-value');
+
+    await cacher.get('key');
+    await delay(70);
+
+    expect(await cacher.get('key')).toBe('first-value');
+    await delay(10);
+
+    // The failed refresh is reverted, so the next get() retries the refresh
+    expect(await cacher.get('key')).toBe('first-value');
+    await delay(10);
+    expect(await cacher.get('key')).toBe('third-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not serve cached errors as stale values', async () => {
+    cacher = new PromiseCacher<string, string>(mockFetchFn, {
+      cachePolicy: {
+        ttlMs: 50,
+        maxStaleMs: 1000,
+        expirationStrategy: ExpirationStrategyType.STALE_WHILE_REVALIDATE,
+        errorTaskPolicy: ErrorTaskPolicyType.CACHE,
+      },
+    });
+    mockFetchFn
+      .mockRejectedValueOnce(new Error('failure'))
+      .mockResolvedValueOnce('value');
+
+    await expect(cacher.get('key')).rejects.toThrow('failure');
+    await delay(70);
+
+    expect(await cacher.get('key')).toBe('value');
+  });
+
+  it('should count stale hits separately in statistics', async () => {
+    cacher = createCacher(1000);
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key'); // miss
+    await cacher.get('key'); // fresh hit
+    await delay(70);
+    await cacher.get('key'); // stale hit
+
+    const stats = cacher.statistics();
+    expect(stats.efficiency.totalRequests).toBe(3);
+    expect(stats.efficiency.hits).toBe(2);
+    expect(stats.efficiency.staleHits).toBe(1);
+    expect(stats.efficiency.misses).toBe(1);
+  });
+});
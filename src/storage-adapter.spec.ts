@@ -0,0 +1,182 @@
+import { CacheStorageAdapter } from './define';
+import { PromiseCacher } from './promise-cacher';
+import { MemoryStorageAdapter } from './storage/memory-storage-adapter';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - storage adapter', () => {
+  let cacher: PromiseCacher<string, string>;
+  let otherCacher: PromiseCacher<string, string>;
+  let storage: MemoryStorageAdapter<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchFn = jest.fn();
+    storage = new MemoryStorageAdapter();
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    otherCacher?.clear();
+    cacher = undefined;
+    otherCacher = undefined;
+    jest.restoreAllMocks();
+  });
+
+  const createCacher = (ttlMs: number = 1000) =>
+    new PromiseCacher<string, string>(mockFetchFn, {
+      cachePolicy: { ttlMs },
+      storagePolicy: { adapter: storage },
+    });
+
+  it('should write fetched values to the storage adapter', async () => {
+    cacher = createCacher();
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    await delay(0);
+
+    expect(storage.size).toBe(1);
+  });
+
+  it('should store values for the storage TTL unless the entry has its own', async () => {
+    cacher = new PromiseCacher<string, string>(mockFetchFn, {
+      cachePolicy: { ttlMs: 1000 },
+      storagePolicy: { adapter: storage, ttlMs: 5000 },
+    });
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    cacher.set('entry', 'entry-value', { ttlMs: 100 });
+    await delay(0);
+
+    const record = await storage.get((cacher as any).transformCacheKey('key'));
+    const entryRecord = await storage.get(
+      (cacher as any).transformCacheKey('entry'),
+    );
+    expect(record.expiresAt - record.resolvedAt).toBe(5000);
+    expect(entryRecord.expiresAt - entryRecord.resolvedAt).toBe(100);
+  });
+
+  it('should share settled values between cachers', async () => {
+    cacher = createCacher();
+    otherCacher = createCacher();
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    await delay(0);
+
+    expect(await otherCacher.get('key')).toBe('value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    expect(otherCacher.statistics().efficiency.storageHits).toBe(1);
+  });
+
+  it('should survive clearing the in-memory cache', async () => {
+    cacher = createCacher();
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    await delay(0);
+    cacher.clear();
+
+    expect(await cacher.get('key')).toBe('value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only keep restored values for their remaining TTL', async () => {
+    cacher = createCacher(100);
+    otherCacher = createCacher(100);
+    mockFetchFn
+      .mockResolvedValueOnce('first-value')
+      .mockResolvedValueOnce('second-value');
+
+    await cacher.get('key');
+    await delay(60);
+
+    expect(await otherCacher.get('key')).toBe('first-value');
+    await delay(60);
+
+    expect(await otherCacher.get('key')).toBe('second-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass the storage adapter on force update', async () => {
+    cacher = createCacher();
+    mockFetchFn
+      .mockResolvedValueOnce('first-value')
+      .mockResolvedValueOnce('second-value');
+
+    await cacher.get('key');
+    await delay(0);
+
+    expect(await cacher.get('key', true)).toBe('second-value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should deduplicate in-flight requests in memory', async () => {
+    cacher = createCacher();
+    mockFetchFn.mockImplementation(async () => {
+      await delay(20);
+      return 'value';
+    });
+
+    const results = await Promise.all([cacher.get('key'), cacher.get('key')]);
+
+    expect(results).toEqual(['value', 'value']);
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete values from the storage adapter', async () => {
+    cacher = createCacher();
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    await delay(0);
+    cacher.delete('key');
+    await delay(0);
+
+    expect(storage.size).toBe(0);
+  });
+
+  it('should keep stored values when evicting from memory', async () => {
+    cacher = new PromiseCacher<string, string>(mockFetchFn, {
+      freeUpMemoryPolicy: { maxMemoryBytes: 1 },
+      storagePolicy: { adapter: storage },
+    });
+    mockFetchFn.mockResolvedValue('value');
+
+    await cacher.get('key');
+    await delay(0);
+    (cacher as any).flush();
+
+    expect(cacher.cacheCount).toBe(0);
+    expect(storage.size).toBe(1);
+  });
+
+  it('should not store errors', async () => {
+    cacher = createCacher();
+    mockFetchFn.mockRejectedValue(new Error('failure'));
+
+    await expect(cacher.get('key')).rejects.toThrow('failure');
+    await delay(0);
+
+    expect(storage.size).toBe(0);
+  });
+
+  it('should fall back to the fetch function when the adapter fails', async () => {
+    const failingStorage: CacheStorageAdapter = {
+      get: jest.fn().mockRejectedValue(new Error('read failed')),
+      set: jest.fn().mockRejectedValue(new Error('write failed')),
+      delete: jest.fn().mockResolvedValue(undefined),
+      clear: jest.fn().mockResolvedValue(undefined),
+    };
+    cacher = new PromiseCacher<string, string>(mockFetchFn, {
+      storagePolicy: { adapter: failingStorage },
+    });
+    mockFetchFn.mockResolvedValue('value');
+
+    expect(await cacher.get('key')).toBe('value');
+    expect(await cacher.get('key')).toBe('value');
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { PromiseCacher } from '../promise-cacher';
+import { delay } from '../util/delay';
+import { CacherStorageAdapter } from './cacher-storage-adapter';
+
+describe('CacherStorageAdapter', () => {
+  let cacher: PromiseCacher<string, string>;
+  let adapter: CacherStorageAdapter<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  const keyOf = (input: string) => (cacher as any).transformCacheKey(input);
+
+  beforeEach(() => {
+    mockFetchFn = jest.fn().mockResolvedValue('fetched');
+    cacher = new PromiseCacher(mockFetchFn, { cachePolicy: { ttlMs: 1000 } });
+    adapter = new CacherStorageAdapter(cacher);
+  });
+
+  afterEach(() => {
+    cacher.clear();
+  });
+
+  it('should read settled values without fetching', async () => {
+    cacher.set('key', 'value');
+    await delay(0);
+
+    const record = await adapter.get(keyOf('key'));
+
+    expect(record.input).toBe('key');
+    expect(record.value).toBe('value');
+    expect(record.expiresAt).toBe(record.resolvedAt + 1000);
+    expect(await adapter.get(keyOf('missing'))).toBeUndefined();
+    expect(mockFetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should not read pending or failed entries', async () => {
+    cacher.set('pending', new Promise(() => {}));
+    cacher.set('failed', new Error('failure'));
+    await delay(0);
+
+    expect(await adapter.get(keyOf('pending'))).toBeUndefined();
+    expect(await adapter.get(keyOf('failed'))).toBeUndefined();
+  });
+
+  it('should write values until the record expires', async () => {
+    await adapter.set(keyOf('key'), {
+      input: 'key',
+      value: 'value',
+      resolvedAt: Date.now(),
+      expiresAt: Date.now() + 50,
+    });
+    await delay(0);
+
+    const record = await adapter.get(keyOf('key'));
+    expect(record.value).toBe('value');
+    expect(record.expiresAt).toBe(record.resolvedAt + 50);
+    expect(await cacher.get('key')).toBe('value');
+    expect(mockFetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should skip writing expired records', async () => {
+    await adapter.set(keyOf('key'), {
+      input: 'key',
+      value: 'value',
+      resolvedAt: Date.now() - 20,
+      expiresAt: Date.now() - 10,
+    });
+
+    expect(cacher.has('key')).toBe(false);
+  });
+
+  it('should write null and undefined values without fetching', async () => {
+    await adapter.set(keyOf('null'), {
+      input: 'null',
+      value: null,
+      resolvedAt: Date.now(),
+      expiresAt: Date.now() + 1000,
+    });
+    await adapter.set(keyOf('undefined'), {
+      input: 'undefined',
+      value: undefined,
+      resolvedAt: Date.now(),
+      expiresAt: Date.now() + 1000,
+    });
+
+    expect(await cacher.get('null')).toBeNull();
+    expect(await cacher.get('undefined')).toBeUndefined();
+    expect(mockFetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should delete and clear entries', async () => {
+    cacher.set('key1', 'value1');
+    cacher.set('key2', 'value2');
+
+    await adapter.delete(keyOf('key1'));
+    expect(cacher.has('key1')).toBe(false);
+
+    await adapter.clear();
+    expect(cacher.cacheCount).toBe(0);
+  });
+
+  it('should keep the tags of written records and delete by filter', async () => {
+    const record = {
+      value: 'value',
+      resolvedAt: Date.now(),
+      expiresAt: Date.now() + 1000,
+    };
+    await adapter.set(keyOf('key1'), { ...record, input: 'key1', tags: ['a'] });
+    await adapter.set(keyOf('key2'), { ...record, input: 'key2' });
+    await delay(0);
+
+    expect((await adapter.get(keyOf('key1'))).tags).toEqual(['a']);
+    await adapter.deleteWhere((stored) => stored.tags?.includes('a'));
+
+    expect(cacher.has('key1')).toBe(false);
+    expect(cacher.has('key2')).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { CacheStorageAdapter, CacheStorageRecord } from '../define';
+import { PromiseCacher } from '../promise-cacher';
+
+/**
+ * Storage adapter backed by another PromiseCacher, used to stack cache tiers.
+ * Reads never call the backing cacher's fetch function, and writes are kept until
+ * the record expires, subject to the backing cacher's memory limits and eviction.
+ * Both cachers must produce the same cache keys for an input.
+ *
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export class CacherStorageAdapter<OUTPUT = any, INPUT = any>
+  implements CacheStorageAdapter<OUTPUT, INPUT>
+{
+  /**
+   * Creates a new adapter over a cacher.
+   *
+   * @param cacher - The cacher acting as the lower tier
+   */
+  public constructor(public readonly cacher: PromiseCacher<OUTPUT, INPUT>) {}
+
+  public async get(
+    key: string,
+  ): Promise<CacheStorageRecord<OUTPUT, INPUT> | undefined> {
+    return this.cacher.getRecordByCacheKey(key);
+  }
+
+  public async set(
+    key: string,
+    record: CacheStorageRecord<OUTPUT, INPUT>,
+  ): Promise<void> {
+    const ttlMs = record.expiresAt - Date.now();
+    if (ttlMs <= 0) return;
+    // Set through a promise, a null or undefined value is not taken as "fetch it"
+    this.cacher.set(record.input, Promise.resolve(record.value), {
+      ttlMs,
+      tags: record.tags,
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.cacher.deleteByCacheKey(key);
+  }
+
+  public async clear(): Promise<void> {
+    this.cacher.clear();
+  }
+
+  public async deleteWhere(
+    filter: (record: CacheStorageRecord<OUTPUT, INPUT>, key: string) => boolean,
+  ): Promise<void> {
+    const { exportedAt, entries } = await this.cacher.exportSnapshot();
+    entries.forEach((entry) => {
+      const record: CacheStorageRecord<OUTPUT, INPUT> = {
+        input: entry.input,
+        value: entry.value,
+        resolvedAt: entry.resolvedAt,
+        expiresAt: exportedAt + entry.remainingTtlMs,
+        tags: entry.tags,
+      };
+      if (filter(record, entry.key)) {
+        this.cacher.deleteByCacheKey(entry.key);
+      }
+    });
+  }
+}
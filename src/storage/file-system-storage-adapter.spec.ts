@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystemStorageAdapter } from './file-system-storage-adapter';
+
+describe('FileSystemStorageAdapter', () => {
+  let directory: string;
+  let adapter: FileSystemStorageAdapter<{ name: string }, string>;
+
+  const createRecord = (name: string, ttlMs: number = 1000) => ({
+    input: 'input',
+    value: { name },
+    resolvedAt: Date.now(),
+    expiresAt: Date.now() + ttlMs,
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'promise-cacher-'));
+    adapter = new FileSystemStorageAdapter(path.join(directory, 'cache'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should write one JSON file per record', async () => {
+    const record = createRecord('test');
+
+    await adapter.set('key/with:special', record);
+
+    const fileNames = fs.readdirSync(adapter.directory);
+    expect(fileNames).toEqual([
+      encodeURIComponent('key/with:special') + '.json',
+    ]);
+    expect(await adapter.get('key/with:special')).toEqual(record);
+  });
+
+  it('should share records between adapter instances', async () => {
+    const record = createRecord('shared');
+    await adapter.set('key', record);
+
+    const otherAdapter = new FileSystemStorageAdapter(adapter.directory);
+    expect(await otherAdapter.get('key')).toEqual(record);
+  });
+
+  it('should return undefined for missing keys and directories', async () => {
+    expect(await adapter.get('missing')).toBeUndefined();
+    await expect(adapter.clear()).resolves.toBeUndefined();
+    await expect(adapter.delete('missing')).resolves.toBeUndefined();
+  });
+
+  it('should remove expired records on read', async () => {
+    await adapter.set('key', createRecord('old', -1));
+
+    expect(await adapter.get('key')).toBeUndefined();
+    expect(fs.readdirSync(adapter.directory)).toEqual([]);
+  });
+
+  it('should delete and clear records', async () => {
+    await adapter.set('key1', createRecord('one'));
+    await adapter.set('key2', createRecord('two'));
+
+    await adapter.delete('key1');
+    expect(await adapter.get('key1')).toBeUndefined();
+    expect(await adapter.get('key2')).toBeDefined();
+
+    await adapter.clear();
+    expect(fs.readdirSync(adapter.directory)).toEqual([]);
+  });
+
+  it('should delete the records matching a filter', async () => {
+    await adapter.set('user/1', createRecord('one'));
+    await adapter.set('user/2', createRecord('two'));
+    await adapter.set('post/1', createRecord('three'));
+
+    await adapter.deleteWhere(
+      (record, key) => key.startsWith('user/') && record.value.name !== 'two',
+    );
+
+    expect(await adapter.get('user/1')).toBeUndefined();
+    expect(await adapter.get('user/2')).toBeDefined();
+    expect(await adapter.get('post/1')).toBeDefined();
+  });
+
+  it('should ignore a missing directory when deleting by filter', async () => {
+    await expect(adapter.deleteWhere(() => true)).resolves.toBeUndefined();
+  });
+});
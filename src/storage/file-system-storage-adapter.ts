@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheStorageAdapter, CacheStorageRecord } from '../define';
+
+const RecordFileExtension = '.json';
+
+/**
+ * Storage adapter that keeps one JSON file per record in a directory.
+ * Values and inputs must be JSON serializable. Writes go through a temporary
+ * file and a rename, so processes sharing the directory never read partial records.
+ *
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export class FileSystemStorageAdapter<OUTPUT = any, INPUT = any>
+  implements CacheStorageAdapter<OUTPUT, INPUT>
+{
+  /**
+   * Creates a new file system storage adapter.
+   *
+   * @param directory - Directory holding the record files, created on first write
+   */
+  public constructor(public readonly directory: string) {}
+
+  /**
+   * Resolves the file path of a record.
+   *
+   * @param key - The transformed cache key
+   * @returns Absolute or relative path of the record file
+   */
+  private filePath(key: string): string {
+    return path.join(
+      this.directory,
+      encodeURIComponent(key) + RecordFileExtension,
+    );
+  }
+
+  public async get(
+    key: string,
+  ): Promise<CacheStorageRecord<OUTPUT, INPUT> | undefined> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath(key), 'utf8');
+    } catch (error) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+    const record: CacheStorageRecord<OUTPUT, INPUT> = JSON.parse(content);
+    if (record.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  public async set(
+    key: string,
+    record: CacheStorageRecord<OUTPUT, INPUT>,
+  ): Promise<void> {
+    const filePath = this.filePath(key);
+    const tempFilePath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(tempFilePath, JSON.stringify(record), 'utf8');
+    await fs.promises.rename(tempFilePath, filePath);
+  }
+
+  public async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.filePath(key));
+    } catch (error) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+
+  public async clear(): Promise<void> {
+    const fileNames = await this.recordFileNames();
+    await Promise.all(
+      fileNames.map((fileName) =>
+        fs.promises
+          .unlink(path.join(this.directory, fileName))
+          .catch(() => undefined),
+      ),
+    );
+  }
+
+  public async deleteWhere(
+    filter: (record: CacheStorageRecord<OUTPUT, INPUT>, key: string) => boolean,
+  ): Promise<void> {
+    const fileNames = await this.recordFileNames();
+    await Promise.all(
+      fileNames.map(async (fileName) => {
+        const key = decodeURIComponent(
+          fileName.slice(0, -RecordFileExtension.length),
+        );
+        const record = await this.get(key).catch(() => undefined);
+        if (record && filter(record, key)) {
+          await this.delete(key);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Lists the record files in the directory.
+   *
+   * @returns File names of the records, empty when the directory does not exist
+   */
+  private async recordFileNames(): Promise<string[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+    return fileNames.filter((fileName) =>
+      fileName.endsWith(RecordFileExtension),
+    );
+  }
+}
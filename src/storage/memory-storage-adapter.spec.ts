@@ -0,0 +1,57 @@
+import { MemoryStorageAdapter } from './memory-storage-adapter';
+
+describe('MemoryStorageAdapter', () => {
+  const createRecord = (value: string, ttlMs: number = 1000) => ({
+    input: 'input',
+    value,
+    resolvedAt: Date.now(),
+    expiresAt: Date.now() + ttlMs,
+  });
+
+  it('should store and read records', async () => {
+    const adapter = new MemoryStorageAdapter<string, string>();
+    const record = createRecord('value');
+
+    await adapter.set('key', record);
+
+    expect(await adapter.get('key')).toEqual(record);
+    expect(adapter.size).toBe(1);
+  });
+
+  it('should return undefined for missing keys', async () => {
+    const adapter = new MemoryStorageAdapter();
+    expect(await adapter.get('missing')).toBeUndefined();
+  });
+
+  it('should drop expired records on read', async () => {
+    const adapter = new MemoryStorageAdapter<string, string>();
+    await adapter.set('key', createRecord('value', -1));
+
+    expect(await adapter.get('key')).toBeUndefined();
+    expect(adapter.size).toBe(0);
+  });
+
+  it('should delete and clear records', async () => {
+    const adapter = new MemoryStorageAdapter<string, string>();
+    await adapter.set('key1', createRecord('value1'));
+    await adapter.set('key2', createRecord('value2'));
+
+    await adapter.delete('key1');
+    expect(await adapter.get('key1')).toBeUndefined();
+    expect(adapter.size).toBe(1);
+
+    await adapter.clear();
+    expect(adapter.size).toBe(0);
+  });
+
+  it('should delete the records matching a filter', async () => {
+    const adapter = new MemoryStorageAdapter<string, string>();
+    await adapter.set('key1', { ...createRecord('value1'), tags: ['a'] });
+    await adapter.set('key2', createRecord('value2'));
+
+    await adapter.deleteWhere((record) => record.tags?.includes('a'));
+
+    expect(await adapter.get('key1')).toBeUndefined();
+    expect(adapter.size).toBe(1);
+  });
+});
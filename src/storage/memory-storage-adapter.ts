@@ -0,0 +1,58 @@
+import { CacheStorageAdapter, CacheStorageRecord } from '../define';
+
+/**
+ * Storage adapter that keeps records in a plain Map.
+ * Records are shared by every cacher holding the same adapter instance,
+ * which makes it a drop-in stand-in for an external store in tests.
+ *
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export class MemoryStorageAdapter<OUTPUT = any, INPUT = any>
+  implements CacheStorageAdapter<OUTPUT, INPUT>
+{
+  private records = new Map<string, CacheStorageRecord<OUTPUT, INPUT>>();
+
+  /**
+   * Gets the number of stored records, including expired ones not yet read.
+   */
+  public get size(): number {
+    return this.records.size;
+  }
+
+  public async get(
+    key: string,
+  ): Promise<CacheStorageRecord<OUTPUT, INPUT> | undefined> {
+    const record = this.records.get(key);
+    if (record && record.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  public async set(
+    key: string,
+    record: CacheStorageRecord<OUTPUT, INPUT>,
+  ): Promise<void> {
+    this.records.set(key, record);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  public async clear(): Promise<void> {
+    this.records.clear();
+  }
+
+  public async deleteWhere(
+    filter: (record: CacheStorageRecord<OUTPUT, INPUT>, key: string) => boolean,
+  ): Promise<void> {
+    Array.from(this.records.keys()).forEach((key) => {
+      if (filter(this.records.get(key), key)) {
+        this.records.delete(key);
+      }
+    });
+  }
+}
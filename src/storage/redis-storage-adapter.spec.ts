@@ -0,0 +1,128 @@
+import { RedisLikeClient, RedisStorageAdapter } from './redis-storage-adapter';
+
+/** In-memory stand-in for a Redis client */
+class FakeRedisClient implements RedisLikeClient {
+  public store = new Map<string, { value: string; expiresAt: number }>();
+
+  public async get(key: string): Promise<string | null> {
+    const entry = this.store.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return entry.value;
+  }
+
+  public async set(
+    key: string,
+    value: string,
+    mode: 'PX',
+    ttlMs: number,
+  ): Promise<unknown> {
+    this.store.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return 'OK';
+  }
+
+  public async del(...keys: string[]): Promise<unknown> {
+    keys.forEach((key) => this.store.delete(key));
+    return keys.length;
+  }
+
+  public scanCalls = 0;
+
+  public async scan(
+    cursor: string,
+    matchOption: 'MATCH',
+    pattern: string,
+    countOption: 'COUNT',
+    count: number,
+  ): Promise<[string, string[]]> {
+    this.scanCalls++;
+    // The cursor is the last key returned, so deletions between calls skip nothing
+    const prefix = pattern.replace(/\*$/, '');
+    const keys = Array.from(this.store.keys())
+      .sort()
+      .filter((key) => cursor === '0' || key > cursor)
+      .slice(0, count);
+    return [
+      keys.length < count ? '0' : keys[keys.length - 1],
+      keys.filter((key) => key.startsWith(prefix)),
+    ];
+  }
+}
+
+describe('RedisStorageAdapter', () => {
+  let client: FakeRedisClient;
+
+  const createRecord = (value: string, ttlMs: number = 1000) => ({
+    input: 'input',
+    value,
+    resolvedAt: Date.now(),
+    expiresAt: Date.now() + ttlMs,
+  });
+
+  beforeEach(() => {
+    client = new FakeRedisClient();
+  });
+
+  it('should store records under the key prefix with an expiry', async () => {
+    const adapter = new RedisStorageAdapter<string, string>(client, 'test:');
+    const record = createRecord('value', 500);
+
+    await adapter.set('key', record);
+
+    const entry = client.store.get('test:key');
+    expect(JSON.parse(entry.value)).toEqual(record);
+    expect(entry.expiresAt).toBeGreaterThanOrEqual(record.expiresAt);
+    expect(await adapter.get('key')).toEqual(record);
+  });
+
+  it('should not write records that are already expired', async () => {
+    const adapter = new RedisStorageAdapter<string, string>(client);
+
+    await adapter.set('key', createRecord('value', -1));
+
+    expect(client.store.size).toBe(0);
+    expect(await adapter.get('key')).toBeUndefined();
+  });
+
+  it('should only clear records with its own prefix', async () => {
+    const adapter = new RedisStorageAdapter<string, string>(client, 'a:');
+    const otherAdapter = new RedisStorageAdapter<string, string>(client, 'b:');
+    await adapter.set('key1', createRecord('value1'));
+    await adapter.set('key2', createRecord('value2'));
+    await otherAdapter.set('key1', createRecord('other'));
+
+    await adapter.delete('key1');
+    expect(await adapter.get('key1')).toBeUndefined();
+
+    await adapter.clear();
+    expect(await adapter.get('key2')).toBeUndefined();
+    expect((await otherAdapter.get('key1')).value).toBe('other');
+  });
+
+  it('should delete the records of its own prefix matching a filter', async () => {
+    const adapter = new RedisStorageAdapter<string, string>(client, 'a:');
+    const otherAdapter = new RedisStorageAdapter<string, string>(client, 'b:');
+    await adapter.set('key1', { ...createRecord('value1'), tags: ['t'] });
+    await adapter.set('key2', createRecord('value2'));
+    await otherAdapter.set('key1', { ...createRecord('other'), tags: ['t'] });
+
+    const filter = jest.fn((record) => record.tags?.includes('t') === true);
+    await adapter.deleteWhere(filter);
+
+    expect(filter).toHaveBeenCalledWith(expect.anything(), 'key1');
+    expect(await adapter.get('key1')).toBeUndefined();
+    expect(await adapter.get('key2')).toBeDefined();
+    expect(await otherAdapter.get('key1')).toBeDefined();
+  });
+
+  it('should clear large stores in batches', async () => {
+    const adapter = new RedisStorageAdapter<string, string>(client);
+    for (let i = 0; i < 250; i++) {
+      await adapter.set(`key${i}`, createRecord(`value${i}`));
+    }
+
+    await adapter.clear();
+
+    expect(client.store.size).toBe(0);
+    expect(client.scanCalls).toBe(3);
+  });
+});
@@ -0,0 +1,120 @@
+import { CacheStorageAdapter, CacheStorageRecord } from '../define';
+
+/** Number of keys each SCAN call is asked to return */
+const ScanBatchSize = 100;
+
+/**
+ * The subset of a Redis client used by RedisStorageAdapter.
+ * Matches the ioredis API; other clients can be wrapped to fit.
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<unknown>;
+  scan(
+    cursor: string,
+    matchOption: 'MATCH',
+    pattern: string,
+    countOption: 'COUNT',
+    count: number,
+  ): Promise<[string, string[]]>;
+}
+
+/**
+ * Storage adapter that keeps records as JSON strings in a Redis-compatible store.
+ * Records are written with a PX expiry, so the store drops them on its own
+ * once they can no longer be served.
+ *
+ * @template OUTPUT - The type of the cached output value
+ * @template INPUT - The type of the cache key input
+ */
+export class RedisStorageAdapter<OUTPUT = any, INPUT = any>
+  implements CacheStorageAdapter<OUTPUT, INPUT>
+{
+  /**
+   * Creates a new Redis storage adapter.
+   *
+   * @param client - A connected Redis-compatible client
+   * @param keyPrefix - Prefix namespacing the records of this adapter
+   */
+  public constructor(
+    private client: RedisLikeClient,
+    public readonly keyPrefix: string = 'promise-cacher:',
+  ) {}
+
+  public async get(
+    key: string,
+  ): Promise<CacheStorageRecord<OUTPUT, INPUT> | undefined> {
+    const content = await this.client.get(this.keyPrefix + key);
+    if (content === null || content === undefined) return undefined;
+    return JSON.parse(content);
+  }
+
+  public async set(
+    key: string,
+    record: CacheStorageRecord<OUTPUT, INPUT>,
+  ): Promise<void> {
+    const ttlMs = Math.ceil(record.expiresAt - Date.now());
+    if (ttlMs <= 0) return;
+    await this.client.set(
+      this.keyPrefix + key,
+      JSON.stringify(record),
+      'PX',
+      ttlMs,
+    );
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  public async clear(): Promise<void> {
+    await this.scanKeys(async (keys) => {
+      await this.client.del(...keys);
+    });
+  }
+
+  public async deleteWhere(
+    filter: (record: CacheStorageRecord<OUTPUT, INPUT>, key: string) => boolean,
+  ): Promise<void> {
+    await this.scanKeys(async (keys) => {
+      const contents = await Promise.all(
+        keys.map((key) => this.client.get(key)),
+      );
+      const matches = keys.filter(
+        (key, i) =>
+          contents[i] !== null &&
+          contents[i] !== undefined &&
+          filter(JSON.parse(contents[i]), key.slice(this.keyPrefix.length)),
+      );
+      if (matches.length > 0) {
+        await this.client.del(...matches);
+      }
+    });
+  }
+
+  /**
+   * Walks the keys under the key prefix with SCAN, one batch at a time,
+   * so a large store is never listed in a single blocking call.
+   *
+   * @param onBatch - Called with each non-empty batch of prefixed keys
+   */
+  private async scanKeys(
+    onBatch: (keys: string[]) => Promise<void>,
+  ): Promise<void> {
+    let cursor = '0';
+    do {
+      const [nextCursor, keys] = await this.client.scan(
+        cursor,
+        'MATCH',
+        `${this.keyPrefix}*`,
+        'COUNT',
+        ScanBatchSize,
+      );
+      if (keys.length > 0) {
+        await onBatch(keys);
+      }
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+}
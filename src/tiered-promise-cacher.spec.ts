@@ -0,0 +1,163 @@
+import { ExpirationStrategyType, TieredCacherConfig } from './define';
+import { clearAfterEach } from './spec-helpers';
+import { MemoryStorageAdapter } from './storage/memory-storage-adapter';
+import { TieredPromiseCacher } from './tiered-promise-cacher';
+import { delay } from './util/delay';
+
+describe('TieredPromiseCacher', () => {
+  let cacher: TieredPromiseCacher<string, string>;
+  let mockFetchFn: jest.Mock;
+
+  const clearLater = clearAfterEach();
+  const createCacher = (config: TieredCacherConfig) =>
+    clearLater(new TieredPromiseCacher<string, string>(mockFetchFn, config));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchFn = jest.fn();
+  });
+
+  afterEach(() => {
+    cacher = undefined;
+    jest.restoreAllMocks();
+  });
+
+  describe('with a cacher as second tier', () => {
+    beforeEach(() => {
+      cacher = createCacher({
+        l1: { cachePolicy: { ttlMs: 50 } },
+        l2: { cachePolicy: { ttlMs: 1000 } },
+      });
+    });
+
+    it('should keep a separate configuration per tier', () => {
+      expect(cacher.l1.ttlMs).toBe(50);
+      expect(cacher.l2.ttlMs).toBe(1000);
+    });
+
+    it('should write fetched values to both tiers', async () => {
+      mockFetchFn.mockResolvedValue('value');
+
+      expect(await cacher.get('key')).toBe('value');
+      await delay(0);
+
+      expect(cacher.l1.has('key')).toBe(true);
+      expect(cacher.l2.has('key')).toBe(true);
+    });
+
+    it('should consult the second tier before fetching', async () => {
+      mockFetchFn.mockResolvedValue('value');
+
+      await cacher.get('key');
+      await delay(70); // first tier expired, second tier still fresh
+
+      expect(await cacher.get('key')).toBe('value');
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should promote second tier hits with their remaining TTL', async () => {
+      cacher = createCacher({
+        l1: { cachePolicy: { ttlMs: 1000 } },
+        l2: { cachePolicy: { ttlMs: 100 } },
+      });
+      cacher.l2.set('key', 'l2-value');
+      mockFetchFn.mockResolvedValue('fetched-value');
+      await delay(60);
+
+      expect(await cacher.get('key')).toBe('l2-value');
+      await delay(60);
+
+      // Promoted entry expires together with the second tier entry
+      expect(await cacher.get('key')).toBe('fetched-value');
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch a null value once', async () => {
+      mockFetchFn.mockResolvedValue(null);
+
+      expect(await cacher.get('key')).toBeNull();
+      await delay(0);
+
+      expect(await cacher.l2.get('key')).toBeNull();
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep entries with their own TTL in the second tier only that long', async () => {
+      cacher.set('key', 'value', { ttlMs: 20 });
+      mockFetchFn.mockResolvedValue('fetched-value');
+      await delay(30);
+
+      expect(await cacher.get('key')).toBe('fetched-value');
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should delete entries from both tiers', async () => {
+      mockFetchFn.mockResolvedValue('value');
+
+      await cacher.get('key');
+      await delay(0);
+      cacher.delete('key');
+
+      expect(cacher.has('key')).toBe(false);
+    });
+
+    it('should break hits down per tier', async () => {
+      mockFetchFn.mockResolvedValue('value');
+
+      await cacher.get('key'); // miss on both tiers
+      await cacher.get('key'); // first tier hit
+      await delay(70);
+      await cacher.get('key'); // second tier hit
+
+      const stats = cacher.statistics();
+      expect(stats.efficiency).toEqual({
+        hitRate: 66.67,
+        l1Hits: 1,
+        l2Hits: 1,
+        misses: 1,
+        totalRequests: 3,
+      });
+      expect(stats.l1.efficiency.totalRequests).toBe(3);
+      expect(stats.l2.efficiency.totalRequests).toBe(2);
+      expect(stats.l2.efficiency.hits).toBe(1);
+    });
+
+    it('should not promote stale second tier entries', async () => {
+      cacher = createCacher({
+        l1: { cachePolicy: { ttlMs: 20 } },
+        l2: {
+          cachePolicy: {
+            ttlMs: 40,
+            expirationStrategy: ExpirationStrategyType.STALE_WHILE_REVALIDATE,
+          },
+        },
+      });
+      mockFetchFn
+        .mockResolvedValueOnce('first-value')
+        .mockResolvedValueOnce('second-value');
+
+      await cacher.get('key');
+      await delay(60);
+
+      expect(await cacher.get('key')).toBe('second-value');
+    });
+  });
+
+  describe('with a storage adapter as second tier', () => {
+    it('should read and write the storage adapter', async () => {
+      const storage = new MemoryStorageAdapter<string, string>();
+      cacher = createCacher({ l2: storage });
+      mockFetchFn.mockResolvedValue('value');
+
+      await cacher.get('key');
+      await delay(0);
+      expect(storage.size).toBe(1);
+      expect(cacher.l2).toBeUndefined();
+
+      cacher.clear();
+      expect(await cacher.get('key')).toBe('value');
+      expect(mockFetchFn).toHaveBeenCalledTimes(1);
+      expect(cacher.statistics().efficiency.l2Hits).toBe(1);
+    });
+  });
+});
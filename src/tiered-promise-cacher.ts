@@ -0,0 +1,157 @@
+import {
+  CacherConfig,
+  CacheStorageAdapter,
+  FetchByKeyMethod,
+  GetOptions,
+  SetOptions,
+  TieredCacherConfig,
+  TieredCacherStatistics,
+} from './define';
+import { PromiseCacher } from './promise-cacher';
+import { CacherStorageAdapter } from './storage/cacher-storage-adapter';
+
+/**
+ * Checks whether a second tier definition is a storage adapter rather than a cacher configuration.
+ *
+ * @param tier - The second tier definition
+ * @returns True if the tier is a storage adapter
+ */
+function isStorageAdapter(
+  tier: CacherConfig | CacheStorageAdapter,
+): tier is CacheStorageAdapter {
+  const adapter = tier as CacheStorageAdapter;
+  return typeof adapter.get === 'function' && typeof adapter.set === 'function';
+}
+
+/**
+ * A two-tier cache that stacks a first PromiseCacher on top of a second cacher or storage adapter.
+ *
+ * A first tier miss consults the second tier before calling the fetch function.
+ * Second tier hits are promoted into the first tier for the TTL they have left,
+ * and fetched values are written to both tiers.
+ *
+ * @template OUTPUT - The type of values returned by cached promises
+ * @template INPUT - The type of keys used to identify cache entries
+ */
+export class TieredPromiseCacher<OUTPUT = any, INPUT = any> {
+  /** The first tier, consulted first on every request */
+  public readonly l1: PromiseCacher<OUTPUT, INPUT>;
+
+  /** The second tier cacher, undefined when the second tier is a storage adapter */
+  public readonly l2?: PromiseCacher<OUTPUT, INPUT>;
+
+  /**
+   * Creates a new two-tier cacher.
+   *
+   * @param fetchFn - Function that retrieves data when neither tier has it
+   * @param config - Configuration of both tiers
+   */
+  public constructor(
+    public fetchFn: FetchByKeyMethod<OUTPUT, INPUT>,
+    public config: TieredCacherConfig,
+  ) {
+    const l1Config = config.l1 ?? {};
+    let adapter: CacheStorageAdapter<OUTPUT, INPUT>;
+    if (isStorageAdapter(config.l2)) {
+      adapter = config.l2;
+    } else {
+      // Both tiers must agree on cache keys for promotion to work
+      this.l2 = new PromiseCacher(fetchFn, {
+        ...config.l2,
+        cachePolicy: {
+          ...config.l2.cachePolicy,
+          cacheKeyTransform: l1Config.cachePolicy?.cacheKeyTransform,
+        },
+      });
+      adapter = new CacherStorageAdapter(this.l2);
+    }
+    this.l1 = new PromiseCacher(fetchFn, {
+      ...l1Config,
+      // Values stored in a second tier cacher live for its TTL, not the first tier's
+      storagePolicy: { adapter, ttlMs: this.l2?.ttlMs },
+    });
+  }
+
+  /**
+   * Retrieves a cached value from the first tier that has it, or fetches it.
+   *
+   * @param key - The key to identify the cached item
+   * @param options - Request options, or true to bypass both tiers and fetch fresh data
+   * @returns Promise resolving to the cached or freshly fetched value
+   */
+  public get(
+    key: INPUT,
+    options: boolean | GetOptions = false,
+  ): Promise<OUTPUT> {
+    return this.l1.get(key, options);
+  }
+
+  /**
+   * Manually sets a value in both tiers.
+   *
+   * @param key - The key to associate with the cached value
+   * @param value - The value or promise to cache
+   * @param options - Per-entry options for the first tier entry
+   */
+  public set(
+    key: INPUT,
+    value?: OUTPUT | Promise<OUTPUT> | Error,
+    options?: SetOptions,
+  ): void {
+    this.l1.set(key, value, options);
+  }
+
+  /**
+   * Removes an entry from both tiers.
+   *
+   * @param key - The key of the entry to remove
+   */
+  public delete(key: INPUT): void {
+    this.l1.delete(key);
+  }
+
+  /**
+   * Checks if a key exists in the first tier or the second tier cacher.
+   *
+   * @param key - The key to check for existence
+   * @returns True if either tier holds the key
+   */
+  public has(key: INPUT): boolean {
+    return this.l1.has(key) || this.l2?.has(key) === true;
+  }
+
+  /**
+   * Removes all entries from both cacher tiers.
+   * A storage adapter second tier keeps its values.
+   */
+  public clear(): void {
+    this.l1.clear();
+    this.l2?.clear();
+  }
+
+  /**
+   * Provides statistics of both tiers with hits broken down per tier.
+   *
+   * @returns Combined efficiency and per tier statistics
+   */
+  public statistics(): TieredCacherStatistics {
+    const l1 = this.l1.statistics();
+    const l2 = this.l2?.statistics();
+    const { totalRequests, hits, storageHits } = l1.efficiency;
+    const servedRequests = hits + storageHits;
+    const hitRate =
+      totalRequests > 0 ? (servedRequests / totalRequests) * 100 : 0;
+
+    return {
+      efficiency: {
+        hitRate: Number(hitRate.toFixed(2)),
+        l1Hits: hits,
+        l2Hits: storageHits,
+        misses: totalRequests - servedRequests,
+        totalRequests,
+      },
+      l1,
+      l2,
+    };
+  }
+}
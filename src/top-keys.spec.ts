@@ -0,0 +1,98 @@
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - topKeys', () => {
+  let cacher: PromiseCacher<string, string>;
+
+  beforeEach(() => {
+    cacher = new PromiseCacher(async (key: string) => {
+      await delay(key === 'slow' ? 40 : 5);
+      if (key.startsWith('bad')) {
+        throw new Error(`failed ${key}`);
+      }
+      return key === 'large' ? 'x'.repeat(1000) : `value-${key}`;
+    });
+  });
+
+  afterEach(() => {
+    cacher.clear();
+  });
+
+  it('should rank keys by hits', async () => {
+    await cacher.get('a');
+    await cacher.get('a');
+    await cacher.get('a');
+    await cacher.get('b');
+    await cacher.get('b');
+    await cacher.get('c');
+
+    expect(cacher.topKeys({ by: 'hits' })).toEqual([
+      { key: 'a', value: 2, error: 0 },
+      { key: 'b', value: 1, error: 0 },
+    ]);
+  });
+
+  it('should rank keys by misses, failures and refetches included', async () => {
+    await cacher.get('bad-1').catch(() => undefined);
+    await delay(5);
+    await cacher.get('bad-1').catch(() => undefined);
+    await cacher.get('a');
+    cacher.delete('a');
+    await cacher.get('a');
+    await cacher.get('a', true);
+    await cacher.get('b');
+
+    expect(cacher.topKeys({ by: 'misses', limit: 2 })).toEqual([
+      { key: 'a', value: 3, error: 0 },
+      { key: 'bad-1', value: 2, error: 0 },
+    ]);
+  });
+
+  it('should count coalesced requests as hits', async () => {
+    await Promise.all([cacher.get('a'), cacher.get('a')]);
+
+    expect(cacher.topKeys({ by: 'hits' })).toEqual([
+      { key: 'a', value: 1, error: 0 },
+    ]);
+  });
+
+  it('should rank keys by fetch time', async () => {
+    await cacher.get('a');
+    await cacher.get('slow');
+
+    const [top, next] = cacher.topKeys({ by: 'fetchTime' });
+
+    expect(top.key).toBe('slow');
+    expect(top.value).toBeGreaterThanOrEqual(35);
+    expect(next.key).toBe('a');
+  });
+
+  it('should rank held entries by bytes', async () => {
+    await cacher.get('a');
+    await cacher.get('large');
+
+    const [top, next] = cacher.topKeys({ by: 'bytes' });
+
+    expect(top).toEqual({
+      key: 'large',
+      value: cacher.getTask('large').usedBytes,
+      error: 0,
+    });
+    expect(next.key).toBe('a');
+
+    cacher.delete('large');
+    expect(cacher.topKeys({ by: 'bytes' }).map(({ key }) => key)).toEqual([
+      'a',
+    ]);
+  });
+
+  it('should start over after clear', async () => {
+    await cacher.get('a');
+    await cacher.get('a');
+
+    cacher.clear();
+
+    expect(cacher.topKeys({ by: 'hits' })).toEqual([]);
+    expect(cacher.topKeys({ by: 'misses' })).toEqual([]);
+  });
+});
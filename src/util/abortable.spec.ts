@@ -0,0 +1,47 @@
+import { abortable, abortReason } from './abortable';
+import { delay } from './delay';
+
+describe('abortable', () => {
+  it('should return the task directly without a signal', async () => {
+    const task = Promise.resolve('value');
+    expect(abortable(task, undefined)).toBe(task);
+  });
+
+  it('should settle like the task when not aborted', async () => {
+    const controller = new AbortController();
+
+    await expect(
+      abortable(Promise.resolve('value'), controller.signal),
+    ).resolves.toBe('value');
+    await expect(
+      abortable(Promise.reject(new Error('failure')), controller.signal),
+    ).rejects.toThrow('failure');
+  });
+
+  it('should reject with the abort reason when aborted first', async () => {
+    const controller = new AbortController();
+    const promise = abortable(delay(100, 'late'), controller.signal);
+
+    controller.abort(new Error('Cancelled'));
+
+    await expect(promise).rejects.toThrow('Cancelled');
+  });
+
+  it('should reject immediately for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Cancelled'));
+
+    await expect(
+      abortable(Promise.resolve('value'), controller.signal),
+    ).rejects.toThrow('Cancelled');
+  });
+
+  it('should use a generic error for non-Error abort reasons', () => {
+    const controller = new AbortController();
+    controller.abort('reason');
+
+    expect(abortReason(controller.signal).message).toBe(
+      'The operation was aborted',
+    );
+  });
+});
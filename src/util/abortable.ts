@@ -0,0 +1,54 @@
+/**
+ * Gets the error an AbortSignal was aborted with.
+ *
+ * @param signal - An aborted signal
+ * @returns The abort reason if it is an Error, otherwise a generic abort error
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error('The operation was aborted');
+}
+
+/**
+ * Races a promise against an AbortSignal.
+ * The returned promise rejects with the abort reason as soon as the signal aborts,
+ * even if the underlying task ignores the signal and keeps running.
+ *
+ * @template T - The type of the promise's resolved value
+ * @param task - The promise to make abortable
+ * @param signal - The signal that cancels waiting for the task. If undefined, the task is returned directly
+ * @returns A promise that settles like the task, or rejects when the signal aborts first
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const result = abortable(fetchData(), controller.signal);
+ * controller.abort(new Error('Cancelled'));
+ * ```
+ */
+export function abortable<T = any>(
+  task: Promise<T>,
+  signal: AbortSignal | undefined,
+): Promise<T> {
+  if (!signal) {
+    return task;
+  }
+  if (signal.aborted) {
+    return Promise.reject(abortReason(signal));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort);
+    task.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: Error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,132 @@
+import { BatchLoader } from './batch-loader';
+import { delay } from './delay';
+
+describe('BatchLoader', () => {
+  let batchLoadFn: jest.Mock;
+
+  beforeEach(() => {
+    batchLoadFn = jest.fn(async (keys: string[]) =>
+      keys.map((key) => `value-${key}`),
+    );
+  });
+
+  it('should coalesce loads made in the same tick into one batch', async () => {
+    const loader = new BatchLoader(batchLoadFn);
+
+    const values = await Promise.all([
+      loader.load('a'),
+      loader.load('b'),
+      loader.load('c'),
+    ]);
+
+    expect(values).toEqual(['value-a', 'value-b', 'value-c']);
+    expect(batchLoadFn).toHaveBeenCalledTimes(1);
+    expect(batchLoadFn).toHaveBeenCalledWith(
+      ['a', 'b', 'c'],
+      expect.any(AbortSignal),
+    );
+  });
+
+  it('should collect loads for the configured window', async () => {
+    const loader = new BatchLoader(batchLoadFn, { windowMs: 30 });
+
+    const first = loader.load('a');
+    await delay(10);
+    const second = loader.load('b');
+
+    expect(await Promise.all([first, second])).toEqual(['value-a', 'value-b']);
+    expect(batchLoadFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should split batches at the max batch size', async () => {
+    const loader = new BatchLoader(batchLoadFn, { maxBatchSize: 2 });
+
+    await Promise.all(['a', 'b', 'c'].map((key) => loader.load(key)));
+
+    expect(batchLoadFn).toHaveBeenCalledTimes(2);
+    expect(batchLoadFn.mock.calls[0][0]).toEqual(['a', 'b']);
+    expect(batchLoadFn.mock.calls[1][0]).toEqual(['c']);
+  });
+
+  it('should reject only the loads whose value is an Error', async () => {
+    batchLoadFn.mockResolvedValueOnce(['value-a', new Error('missing b')]);
+    const loader = new BatchLoader(batchLoadFn);
+
+    const a = loader.load('a');
+    const b = loader.load('b');
+
+    expect(await a).toBe('value-a');
+    await expect(b).rejects.toThrow('missing b');
+  });
+
+  it('should reject every load when the batch fails', async () => {
+    batchLoadFn.mockRejectedValueOnce(new Error('batch failure'));
+    const loader = new BatchLoader(batchLoadFn);
+
+    const a = loader.load('a');
+    const b = loader.load('b');
+
+    await expect(a).rejects.toThrow('batch failure');
+    await expect(b).rejects.toThrow('batch failure');
+  });
+
+  it('should abort the batch once every load is cancelled', async () => {
+    batchLoadFn.mockImplementationOnce(async (keys: string[]) => {
+      await delay(30);
+      return keys;
+    });
+    const loader = new BatchLoader(batchLoadFn);
+    const controller1 = new AbortController();
+    const controller2 = new AbortController();
+
+    const a = loader.load('a', controller1.signal);
+    const b = loader.load('b', controller2.signal);
+    await delay(5);
+    const batchSignal: AbortSignal = batchLoadFn.mock.calls[0][1];
+
+    controller1.abort(new Error('a cancelled'));
+    await expect(a).rejects.toThrow('a cancelled');
+    expect(batchSignal.aborted).toBe(false);
+
+    controller2.abort(new Error('b cancelled'));
+    await expect(b).rejects.toThrow('b cancelled');
+    expect(batchSignal.aborted).toBe(true);
+  });
+
+  it('should not send loads cancelled before the batch is dispatched', async () => {
+    const loader = new BatchLoader(batchLoadFn, { windowMs: 10 });
+    const controller = new AbortController();
+
+    const a = loader.load('a', controller.signal);
+    const b = loader.load('b');
+    controller.abort(new Error('a cancelled'));
+
+    await expect(a).rejects.toThrow('a cancelled');
+    expect(await b).toBe('value-b');
+    expect(batchLoadFn).toHaveBeenCalledTimes(1);
+    expect(batchLoadFn.mock.calls[0][0]).toEqual(['b']);
+  });
+
+  it('should not dispatch a batch whose loads were all cancelled', async () => {
+    const loader = new BatchLoader(batchLoadFn, { windowMs: 10 });
+    const controller = new AbortController();
+
+    const a = loader.load('a', controller.signal);
+    controller.abort(new Error('a cancelled'));
+    await expect(a).rejects.toThrow('a cancelled');
+    await delay(20);
+
+    expect(batchLoadFn).not.toHaveBeenCalled();
+  });
+
+  it('should stop listening for cancellation once the batch settles', async () => {
+    const loader = new BatchLoader(batchLoadFn);
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    expect(await loader.load('a', controller.signal)).toBe('value-a');
+    await delay(0);
+
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
@@ -0,0 +1,171 @@
+import { abortReason } from './abortable';
+
+/** Options controlling how loads are grouped into batches */
+export interface BatchLoaderOptions {
+  /** How long to collect loads before dispatching a batch, 0 collects until the next macrotask */
+  windowMs?: number;
+  /** Dispatch as soon as this many loads are collected, unlimited when 0 or undefined */
+  maxBatchSize?: number;
+}
+
+/**
+ * Loads a whole batch of keys at once
+ * @param keys - The keys collected in this batch
+ * @param signal - Aborted once every load in the batch has been cancelled
+ * @returns Values aligned with the keys; an Error value rejects the load of its key
+ */
+export type BatchLoadFn<KEY, VALUE> = (
+  keys: KEY[],
+  signal: AbortSignal,
+) => Promise<(VALUE | Error)[]>;
+
+/** A dispatched batch, aborted once none of its loads is still waiting */
+interface DispatchedBatch {
+  controller: AbortController;
+  activeCount: number;
+}
+
+/** A single load waiting for its batch */
+interface PendingLoad<KEY, VALUE> {
+  key: KEY;
+  resolve: (value: VALUE) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  /** Listener cancelling the load, removed once its batch settles */
+  onAbort?: () => void;
+  /** The batch the load was sent in, undefined while it is pending */
+  batch?: DispatchedBatch;
+}
+
+/**
+ * Coalesces individual loads made within a short window into a single batched call.
+ *
+ * @template KEY - The type of the keys being loaded
+ * @template VALUE - The type of the loaded values
+ *
+ * @example
+ * ```typescript
+ * const loader = new BatchLoader(async (ids: string[]) => fetchUsers(ids));
+ * const [a, b] = await Promise.all([loader.load('a'), loader.load('b')]);
+ * ```
+ */
+export class BatchLoader<KEY, VALUE> {
+  /** Loads collected for the next batch */
+  private pending: PendingLoad<KEY, VALUE>[] = [];
+
+  /** Timer dispatching the pending batch at the end of the window */
+  private timer: ReturnType<typeof setTimeout>;
+
+  /**
+   * Creates a new batch loader.
+   *
+   * @param batchLoadFn - Function loading a whole batch of keys
+   * @param options - Batch window and size options
+   */
+  public constructor(
+    private batchLoadFn: BatchLoadFn<KEY, VALUE>,
+    private options: BatchLoaderOptions = {},
+  ) {}
+
+  /**
+   * Loads a single key as part of the next batch.
+   *
+   * @param key - The key to load
+   * @param signal - Cancels this load; the batch is aborted once every load in it is cancelled
+   * @returns Promise resolving to the value loaded for the key
+   */
+  public load(key: KEY, signal?: AbortSignal): Promise<VALUE> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+    return new Promise<VALUE>((resolve, reject) => {
+      const load: PendingLoad<KEY, VALUE> = { key, resolve, reject, signal };
+      if (signal) {
+        load.onAbort = () => this.cancel(load);
+        signal.addEventListener('abort', load.onAbort, { once: true });
+      }
+      this.pending.push(load);
+      const { maxBatchSize } = this.options;
+      if (maxBatchSize > 0 && this.pending.length >= maxBatchSize) {
+        this.dispatch();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.dispatch(), this.options.windowMs);
+      }
+    });
+  }
+
+  /**
+   * Rejects a cancelled load. A pending load is dropped before its key is sent,
+   * while a dispatched batch is aborted once every load in it is cancelled.
+   *
+   * @param load - The cancelled load
+   */
+  private cancel(load: PendingLoad<KEY, VALUE>): void {
+    load.reject(abortReason(load.signal));
+    if (!load.batch) {
+      this.pending.splice(this.pending.indexOf(load), 1);
+      if (this.pending.length === 0) {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+      }
+      return;
+    }
+    load.batch.activeCount--;
+    if (load.batch.activeCount === 0) {
+      load.batch.controller.abort(abortReason(load.signal));
+    }
+  }
+
+  /**
+   * Sends every pending load as one batch and settles each load with its value.
+   */
+  private dispatch(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length === 0) return;
+
+    const controller = new AbortController();
+    const dispatched: DispatchedBatch = {
+      controller,
+      activeCount: batch.length,
+    };
+    batch.forEach((load) => {
+      load.batch = dispatched;
+    });
+
+    let results: Promise<(VALUE | Error)[]>;
+    try {
+      results = Promise.resolve(
+        this.batchLoadFn(
+          batch.map((load) => load.key),
+          controller.signal,
+        ),
+      );
+    } catch (error) {
+      results = Promise.reject(error as Error);
+    }
+    const stopListening = () =>
+      batch.forEach((load) => {
+        load.signal?.removeEventListener('abort', load.onAbort);
+      });
+    results.then(
+      (values) => {
+        stopListening();
+        batch.forEach((load, index) => {
+          const value = values[index];
+          if (value instanceof Error) {
+            load.reject(value);
+          } else {
+            load.resolve(value);
+          }
+        });
+      },
+      (error: Error) => {
+        stopListening();
+        batch.forEach((load) => load.reject(error));
+      },
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { CircuitStateType } from '../define';
+import { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker';
+import { delay } from './delay';
+
+describe('CircuitBreaker', () => {
+  const options: CircuitBreakerOptions = {
+    consecutiveFailures: 3,
+    windowSize: 10,
+    minimumCalls: 4,
+    coolDownMs: 30,
+  };
+
+  /**
+   * Makes a permitted call that settles with the given outcome.
+   */
+  const call = (breaker: CircuitBreaker, isFailure: boolean) => {
+    expect(breaker.tryAcquire()).toBe(true);
+    if (isFailure) {
+      breaker.failure();
+    } else {
+      breaker.success();
+    }
+  };
+
+  it('should open after consecutive failures', () => {
+    const breaker = new CircuitBreaker(options);
+
+    call(breaker, true);
+    call(breaker, true);
+    expect(breaker.state).toBe(CircuitStateType.CLOSED);
+    call(breaker, true);
+
+    expect(breaker.state).toBe(CircuitStateType.OPEN);
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.rejectedCount).toBe(1);
+    expect(breaker.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('should reset consecutive failures on success', () => {
+    const breaker = new CircuitBreaker(options);
+
+    call(breaker, true);
+    call(breaker, true);
+    call(breaker, false);
+    call(breaker, true);
+
+    expect(breaker.state).toBe(CircuitStateType.CLOSED);
+    expect(breaker.failures).toBe(1);
+  });
+
+  it('should open on the error rate once the window holds enough calls', () => {
+    const breaker = new CircuitBreaker({
+      ...options,
+      consecutiveFailures: 0,
+      errorRateThreshold: 50,
+    });
+
+    call(breaker, true);
+    call(breaker, false);
+    call(breaker, true);
+    expect(breaker.state).toBe(CircuitStateType.CLOSED);
+    call(breaker, false);
+    expect(breaker.errorRate).toBe(50);
+    expect(breaker.state).toBe(CircuitStateType.CLOSED);
+    call(breaker, true);
+
+    expect(breaker.state).toBe(CircuitStateType.OPEN);
+  });
+
+  it('should let a single probe through after the cool-down', async () => {
+    const breaker = new CircuitBreaker(options);
+    [1, 2, 3].forEach(() => call(breaker, true));
+
+    await delay(40);
+
+    expect(breaker.isRejecting).toBe(false);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.state).toBe(CircuitStateType.HALF_OPEN);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should close when the probe succeeds', async () => {
+    const breaker = new CircuitBreaker(options);
+    [1, 2, 3].forEach(() => call(breaker, true));
+    await delay(40);
+
+    call(breaker, false);
+
+    expect(breaker.state).toBe(CircuitStateType.CLOSED);
+    expect(breaker.failures).toBe(0);
+  });
+
+  it('should open again when the probe fails', async () => {
+    const breaker = new CircuitBreaker(options);
+    [1, 2, 3].forEach(() => call(breaker, true));
+    await delay(40);
+
+    call(breaker, true);
+
+    expect(breaker.state).toBe(CircuitStateType.OPEN);
+    expect(breaker.isRejecting).toBe(true);
+  });
+
+  it('should let another probe through when the probe is ignored', async () => {
+    const breaker = new CircuitBreaker(options);
+    [1, 2, 3].forEach(() => call(breaker, true));
+    await delay(40);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.ignore();
+
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { CircuitStateType } from '../define';
+
+/** Resolved circuit breaker settings, every option filled in */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the breaker, disabled when 0 */
+  consecutiveFailures: number;
+  /** Error rate percentage (0-100) over the window that opens the breaker, disabled when undefined */
+  errorRateThreshold?: number;
+  /** Number of most recent calls the error rate is measured over */
+  windowSize: number;
+  /** Calls the window must hold before the error rate is considered */
+  minimumCalls: number;
+  /** How long the breaker stays open before letting a probe through */
+  coolDownMs: number;
+}
+
+/**
+ * Guards an unreliable operation by failing fast after repeated failures.
+ *
+ * CLOSED lets every call through and tracks outcomes. Too many failures OPEN the breaker,
+ * rejecting calls until the cool-down has passed. Then a single probe is let through
+ * in HALF_OPEN: its success closes the breaker, its failure opens it again.
+ *
+ * Every permitted call must be settled through success(), failure() or ignore().
+ */
+export class CircuitBreaker {
+  /** Current state of the breaker */
+  private currentState: CircuitStateType = CircuitStateType.CLOSED;
+
+  /** Failures since the last success */
+  private consecutiveFailureCount: number = 0;
+
+  /** Outcomes of the most recent calls, true for a failure */
+  private window: boolean[] = [];
+
+  /** Timestamp when the breaker last opened */
+  private openedAt?: number;
+
+  /** Timestamp when the half-open probe was let through */
+  private probeStartedAt?: number;
+
+  /** Calls rejected while the breaker was open */
+  public rejectedCount: number = 0;
+
+  /**
+   * Creates a new circuit breaker.
+   *
+   * @param options - Thresholds and cool-down of the breaker
+   */
+  public constructor(private options: CircuitBreakerOptions) {}
+
+  /** Current state of the breaker */
+  public get state(): CircuitStateType {
+    return this.currentState;
+  }
+
+  /** Failures since the last success */
+  public get failures(): number {
+    return this.consecutiveFailureCount;
+  }
+
+  /** Error rate percentage over the window of recent calls */
+  public get errorRate(): number {
+    if (this.window.length === 0) return 0;
+    const failed = this.window.filter((isFailure) => isFailure).length;
+    return (failed / this.window.length) * 100;
+  }
+
+  /**
+   * Time left until a call would be let through.
+   *
+   * @returns 0 when calls are currently permitted
+   */
+  public get retryAfterMs(): number {
+    const now = Date.now();
+    if (this.currentState === CircuitStateType.OPEN) {
+      return Math.max(0, this.openedAt + this.options.coolDownMs - now);
+    }
+    if (this.currentState === CircuitStateType.HALF_OPEN) {
+      // A probe that never settles must not block the breaker forever
+      return Math.max(0, this.probeStartedAt + this.options.coolDownMs - now);
+    }
+    return 0;
+  }
+
+  /**
+   * Checks whether a call would be rejected right now, without side effects.
+   *
+   * @returns True if the breaker is rejecting calls
+   */
+  public get isRejecting(): boolean {
+    return this.retryAfterMs > 0;
+  }
+
+  /**
+   * Asks to make a call, turning into a half-open probe once the cool-down has passed.
+   *
+   * @returns True if the call may proceed
+   */
+  public tryAcquire(): boolean {
+    if (this.isRejecting) {
+      this.rejectedCount++;
+      return false;
+    }
+    if (this.currentState !== CircuitStateType.CLOSED) {
+      this.currentState = CircuitStateType.HALF_OPEN;
+      this.probeStartedAt = Date.now();
+    }
+    return true;
+  }
+
+  /**
+   * Records a successful call. A successful probe closes the breaker.
+   */
+  public success(): void {
+    this.consecutiveFailureCount = 0;
+    if (this.currentState !== CircuitStateType.CLOSED) {
+      this.currentState = CircuitStateType.CLOSED;
+      this.window = [];
+      return;
+    }
+    this.recordOutcome(false);
+  }
+
+  /**
+   * Records a failed call. A failed probe, or crossing a threshold, opens the breaker.
+   */
+  public failure(): void {
+    this.consecutiveFailureCount++;
+    if (this.currentState !== CircuitStateType.CLOSED) {
+      this.open();
+      return;
+    }
+    this.recordOutcome(true);
+    const { consecutiveFailures, errorRateThreshold, minimumCalls } =
+      this.options;
+    const tooManyFailures =
+      consecutiveFailures > 0 &&
+      this.consecutiveFailureCount >= consecutiveFailures;
+    const errorRateExceeded =
+      errorRateThreshold !== undefined &&
+      this.window.length >= minimumCalls &&
+      this.errorRate >= errorRateThreshold;
+    if (tooManyFailures || errorRateExceeded) {
+      this.open();
+    }
+  }
+
+  /**
+   * Settles a call whose outcome says nothing about the upstream, such as a cancelled call.
+   * A cancelled probe lets the next call probe again.
+   */
+  public ignore(): void {
+    if (this.currentState === CircuitStateType.HALF_OPEN) {
+      this.probeStartedAt = 0;
+    }
+  }
+
+  /**
+   * Opens the breaker and restarts the cool-down.
+   */
+  private open(): void {
+    this.currentState = CircuitStateType.OPEN;
+    this.openedAt = Date.now();
+    this.probeStartedAt = undefined;
+    this.window = [];
+  }
+
+  /**
+   * Adds an outcome to the window of recent calls.
+   *
+   * @param isFailure - Whether the call failed
+   */
+  private recordOutcome(isFailure: boolean): void {
+    this.window.push(isFailure);
+    if (this.window.length > this.options.windowSize) {
+      this.window.shift();
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { CountMinSketch } from './count-min-sketch';
+
+describe('CountMinSketch', () => {
+  it('should estimate how often a value occurred', () => {
+    const sketch = new CountMinSketch(256);
+
+    sketch.increment('a');
+    sketch.increment('a');
+    sketch.increment('b');
+
+    expect(sketch.estimate('a')).toBe(2);
+    expect(sketch.estimate('b')).toBe(1);
+    expect(sketch.estimate('c')).toBe(0);
+  });
+
+  it('should never underestimate counts', () => {
+    const sketch = new CountMinSketch(8);
+    const keys = Array.from({ length: 50 }, (_, i) => `key-${i}`);
+
+    keys.forEach((key) => sketch.increment(key));
+    sketch.increment('key-0');
+
+    expect(sketch.estimate('key-0')).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should saturate counters at 15', () => {
+    const sketch = new CountMinSketch(256);
+
+    for (let i = 0; i < 20; i++) {
+      sketch.increment('hot');
+    }
+
+    expect(sketch.estimate('hot')).toBe(15);
+  });
+
+  it('should halve counters once the sample size is reached', () => {
+    const sketch = new CountMinSketch(1);
+
+    for (let i = 0; i < 10; i++) {
+      sketch.increment('hot');
+    }
+
+    // The 10th increment reached the sample size of 10 per counter
+    expect(sketch.estimate('hot')).toBe(5);
+  });
+
+  it('should reset every counter on clear', () => {
+    const sketch = new CountMinSketch(256);
+    sketch.increment('a');
+
+    sketch.clear();
+
+    expect(sketch.estimate('a')).toBe(0);
+  });
+});
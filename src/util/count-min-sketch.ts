@@ -0,0 +1,112 @@
+/** Largest value a counter saturates at */
+const MaxCount = 15;
+
+/**
+ * Hashes a string with FNV-1a, mixed with a seed so each row hashes differently.
+ *
+ * @param value - The string to hash
+ * @param seed - The row seed
+ * @returns An unsigned 32-bit hash
+ */
+function hash(value: string, seed: number): number {
+  let h = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h;
+}
+
+/**
+ * A fixed-memory frequency estimator.
+ *
+ * Counts are never underestimated, but may be overestimated by hash collisions.
+ * Counters saturate at 15 and are all halved once `sampleSize` increments were made,
+ * so old popularity fades and recent frequency dominates.
+ *
+ * @example
+ * ```typescript
+ * const sketch = new CountMinSketch(1024);
+ * sketch.increment('key');
+ * sketch.estimate('key'); // 1
+ * ```
+ */
+export class CountMinSketch {
+  /** One row of counters per hash function */
+  private rows: Uint8Array[];
+
+  /** Increments made since the last halving */
+  private additions: number = 0;
+
+  /** Increments after which every counter is halved */
+  private readonly sampleSize: number;
+
+  /**
+   * Creates a new sketch.
+   *
+   * @param width - Counters per row, more counters mean fewer collisions
+   * @param depth - Number of rows, each using its own hash function
+   */
+  public constructor(
+    private readonly width: number = 1024,
+    depth: number = 4,
+  ) {
+    this.width = Math.max(1, Math.floor(width));
+    this.rows = Array.from(
+      { length: Math.max(1, depth) },
+      () => new Uint8Array(this.width),
+    );
+    this.sampleSize = this.width * 10;
+  }
+
+  /**
+   * Records one occurrence of a value.
+   *
+   * @param value - The value to count
+   */
+  public increment(value: string): void {
+    this.rows.forEach((row, seed) => {
+      const index = hash(value, seed) % this.width;
+      if (row[index] < MaxCount) {
+        row[index]++;
+      }
+    });
+    this.additions++;
+    if (this.additions >= this.sampleSize) {
+      this.age();
+    }
+  }
+
+  /**
+   * Estimates how often a value occurred.
+   *
+   * @param value - The value to look up
+   * @returns The smallest counter across rows
+   */
+  public estimate(value: string): number {
+    return this.rows.reduce(
+      (min, row, seed) => Math.min(min, row[hash(value, seed) % this.width]),
+      MaxCount,
+    );
+  }
+
+  /**
+   * Resets every counter.
+   */
+  public clear(): void {
+    this.rows.forEach((row) => row.fill(0));
+    this.additions = 0;
+  }
+
+  /**
+   * Halves every counter so that older occurrences weigh less.
+   */
+  private age(): void {
+    this.rows.forEach((row) => {
+      for (let i = 0; i < row.length; i++) {
+        row[i] = row[i] >> 1;
+      }
+    });
+    this.additions = Math.floor(this.additions / 2);
+  }
+}
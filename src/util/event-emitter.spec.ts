@@ -0,0 +1,80 @@
+import { TypedEventEmitter } from './event-emitter';
+
+interface TestEvents {
+  ready: { at: number };
+  message: string;
+}
+
+describe('TypedEventEmitter', () => {
+  let emitter: TypedEventEmitter<TestEvents>;
+
+  beforeEach(() => {
+    emitter = new TypedEventEmitter<TestEvents>();
+  });
+
+  it('should call listeners with the payload in registration order', () => {
+    const calls: string[] = [];
+    emitter.on('message', (payload) => calls.push(`first:${payload}`));
+    emitter.on('message', (payload) => calls.push(`second:${payload}`));
+
+    emitter.emit('message', 'hello');
+
+    expect(calls).toEqual(['first:hello', 'second:hello']);
+  });
+
+  it('should only call listeners of the emitted event', () => {
+    const listener = jest.fn();
+    emitter.on('ready', listener);
+
+    emitter.emit('message', 'hello');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should remove a listener through the returned function and off()', () => {
+    const listener1 = jest.fn();
+    const listener2 = jest.fn();
+    const off = emitter.on('message', listener1);
+    emitter.on('message', listener2);
+
+    off();
+    emitter.emit('message', 'first');
+    emitter.off('message', listener2);
+    emitter.emit('message', 'second');
+
+    expect(listener1).not.toHaveBeenCalled();
+    expect(listener2).toHaveBeenCalledTimes(1);
+    expect(emitter.hasListeners('message')).toBe(false);
+  });
+
+  it('should remove every listener of an event', () => {
+    emitter.on('message', jest.fn());
+    emitter.on('message', jest.fn());
+
+    emitter.off('message');
+
+    expect(emitter.hasListeners('message')).toBe(false);
+  });
+
+  it('should call a once listener a single time', () => {
+    const listener = jest.fn();
+    emitter.once('ready', listener);
+
+    emitter.emit('ready', { at: 1 });
+    emitter.emit('ready', { at: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ at: 1 });
+  });
+
+  it('should keep calling listeners when one throws', () => {
+    const listener = jest.fn();
+    emitter.on('message', () => {
+      throw new Error('listener failure');
+    });
+    emitter.on('message', listener);
+
+    expect(() => emitter.emit('message', 'hello')).not.toThrow();
+    expect(listener).toHaveBeenCalledWith('hello');
+  });
+});
@@ -0,0 +1,116 @@
+/** Listener of a single event, receiving the event's payload */
+export type EventListener<PAYLOAD> = (payload: PAYLOAD) => void;
+
+/**
+ * A minimal event emitter whose event names and payloads are typed by an event map.
+ *
+ * Listeners are called synchronously in registration order.
+ * A throwing listener never interrupts the emitter or the remaining listeners.
+ *
+ * @template EVENTS - Map of event names to their payload types
+ *
+ * @example
+ * ```typescript
+ * const emitter = new TypedEventEmitter<{ ready: { at: number } }>();
+ * emitter.on('ready', ({ at }) => console.log(at));
+ * emitter.emit('ready', { at: Date.now() });
+ * ```
+ */
+export class TypedEventEmitter<EVENTS extends object> {
+  /** Registered listeners per event name */
+  private listenerMap = new Map<
+    keyof EVENTS,
+    EventListener<EVENTS[keyof EVENTS]>[]
+  >();
+
+  /**
+   * Registers a listener for an event.
+   *
+   * @param event - The event name
+   * @param listener - Called with the payload every time the event is emitted
+   * @returns A function that removes the listener
+   */
+  public on<EVENT extends keyof EVENTS>(
+    event: EVENT,
+    listener: EventListener<EVENTS[EVENT]>,
+  ): () => void {
+    const listeners = this.listenerMap.get(event) ?? [];
+    listeners.push(listener as EventListener<EVENTS[keyof EVENTS]>);
+    this.listenerMap.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Registers a listener that is removed after its first call.
+   *
+   * @param event - The event name
+   * @param listener - Called with the payload the next time the event is emitted
+   * @returns A function that removes the listener
+   */
+  public once<EVENT extends keyof EVENTS>(
+    event: EVENT,
+    listener: EventListener<EVENTS[EVENT]>,
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Removes a listener, or every listener of the event when none is given.
+   *
+   * @param event - The event name
+   * @param listener - The listener to remove
+   */
+  public off<EVENT extends keyof EVENTS>(
+    event: EVENT,
+    listener?: EventListener<EVENTS[EVENT]>,
+  ): void {
+    if (!listener) {
+      this.listenerMap.delete(event);
+      return;
+    }
+    const listeners = (this.listenerMap.get(event) ?? []).filter(
+      (l) => l !== listener,
+    );
+    if (listeners.length > 0) {
+      this.listenerMap.set(event, listeners);
+    } else {
+      this.listenerMap.delete(event);
+    }
+  }
+
+  /**
+   * Checks whether an event has listeners, so payloads are only built when needed.
+   *
+   * @param event - The event name
+   * @returns True if at least one listener is registered
+   */
+  public hasListeners(event: keyof EVENTS): boolean {
+    return this.listenerMap.has(event);
+  }
+
+  /**
+   * Calls every listener of an event with the payload.
+   *
+   * @param event - The event name
+   * @param payload - The event payload
+   */
+  public emit<EVENT extends keyof EVENTS>(
+    event: EVENT,
+    payload: EVENTS[EVENT],
+  ): void {
+    const listeners = this.listenerMap.get(event);
+    if (!listeners) return;
+    // Copy so listeners removing themselves do not skip others
+    listeners.slice().forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        // Listener failures must not break caching
+      }
+    });
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  LatencyHistogram,
+  WindowedLatencyHistogram,
+} from './latency-histogram';
+
+describe('LatencyHistogram', () => {
+  it('should report zeros when empty', () => {
+    const histogram = new LatencyHistogram(0.01);
+
+    expect(histogram.count).toBe(0);
+    expect(histogram.mean).toBe(0);
+    expect(histogram.quantile(0.5)).toBe(0);
+  });
+
+  it('should estimate quantiles within the relative accuracy', () => {
+    const histogram = new LatencyHistogram(0.01);
+    for (let value = 1; value <= 10000; value++) {
+      histogram.record(value);
+    }
+
+    [0.5, 0.9, 0.99, 0.999].forEach((q) => {
+      const exact = 1 + q * 9999;
+      expect(Math.abs(histogram.quantile(q) - exact) / exact).toBeLessThan(
+        0.011,
+      );
+    });
+    expect(histogram.count).toBe(10000);
+    expect(histogram.mean).toBe(5000.5);
+    expect(histogram.min).toBe(1);
+    expect(histogram.max).toBe(10000);
+  });
+
+  it('should keep the exact extremes', () => {
+    const histogram = new LatencyHistogram(0.01);
+    histogram.record(3);
+    histogram.record(1234);
+
+    expect(histogram.quantile(0)).toBe(3);
+    expect(histogram.quantile(1)).toBe(1234);
+  });
+
+  it('should count zero samples in their own bucket', () => {
+    const histogram = new LatencyHistogram(0.01);
+    histogram.record(0);
+    histogram.record(0);
+    histogram.record(0);
+    histogram.record(50);
+
+    expect(histogram.quantile(0.5)).toBe(0);
+    expect(histogram.quantile(1)).toBe(50);
+  });
+
+  it('should merge another histogram', () => {
+    const first = new LatencyHistogram(0.01);
+    const second = new LatencyHistogram(0.01);
+    first.record(10);
+    second.record(100);
+    second.record(1000);
+
+    first.merge(second);
+
+    expect(first.count).toBe(3);
+    expect(first.sum).toBe(1110);
+    expect(first.min).toBe(10);
+    expect(first.max).toBe(1000);
+    expect(Math.abs(first.quantile(0.5) - 100)).toBeLessThan(1);
+  });
+
+  it('should keep memory bounded by the value range', () => {
+    const histogram = new LatencyHistogram(0.01);
+    for (let i = 0; i < 100000; i++) {
+      histogram.record(100 + (i % 50));
+    }
+
+    expect((histogram as any).buckets.size).toBeLessThan(25);
+  });
+});
+
+describe('WindowedLatencyHistogram', () => {
+  const options = { relativeAccuracy: 0.01, slotMs: 1000, maxWindowMs: 5000 };
+
+  it('should keep every sample in the total', () => {
+    const histogram = new WindowedLatencyHistogram(options);
+    histogram.record(10, 0);
+    histogram.record(20, 60000);
+
+    expect(histogram.total.count).toBe(2);
+  });
+
+  it('should merge the slots within a window', () => {
+    const histogram = new WindowedLatencyHistogram(options);
+    histogram.record(10, 0);
+    histogram.record(20, 2500);
+    histogram.record(30, 4200);
+
+    expect(histogram.window(1000, 4500).count).toBe(1);
+    expect(histogram.window(2000, 4500).count).toBe(2);
+    expect(histogram.window(5000, 4500).count).toBe(3);
+  });
+
+  it('should drop slots beyond the longest window', () => {
+    const histogram = new WindowedLatencyHistogram(options);
+    histogram.record(10, 0);
+    histogram.record(20, 10000);
+
+    expect(histogram.window(5000, 10000).count).toBe(1);
+    expect((histogram as any).slots).toHaveLength(1);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Latency sketch with a fixed relative accuracy, in the style of DDSketch.
+ *
+ * Values fall into logarithmic buckets, so any quantile is estimated within
+ * relativeAccuracy of the true value. Memory grows with the logarithm of the value
+ * range, not with the number of samples: about 750 buckets cover 1ms to an hour at 1%.
+ * Values of zero or below share a single bucket.
+ */
+export class LatencyHistogram {
+  /** Sample counts by bucket index */
+  private buckets = new Map<number, number>();
+
+  /** Samples of zero or below */
+  private zeroCount: number = 0;
+
+  /** Ratio between the bounds of neighbouring buckets */
+  private readonly gamma: number;
+
+  private readonly logGamma: number;
+
+  /** Number of samples recorded */
+  public count: number = 0;
+
+  /** Sum of the samples recorded */
+  public sum: number = 0;
+
+  /** Smallest sample recorded, 0 when empty */
+  public min: number = 0;
+
+  /** Largest sample recorded, 0 when empty */
+  public max: number = 0;
+
+  /**
+   * Creates a new, empty histogram.
+   *
+   * @param relativeAccuracy - Largest relative error of estimated quantiles, between 0 and 1
+   */
+  public constructor(public readonly relativeAccuracy: number) {
+    this.gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+    this.logGamma = Math.log(this.gamma);
+  }
+
+  /** Mean of the samples recorded, 0 when empty */
+  public get mean(): number {
+    return this.count > 0 ? this.sum / this.count : 0;
+  }
+
+  /**
+   * Records a sample.
+   *
+   * @param value - The sample
+   */
+  public record(value: number): void {
+    if (value > 0) {
+      const index = Math.ceil(Math.log(value) / this.logGamma);
+      this.buckets.set(index, (this.buckets.get(index) ?? 0) + 1);
+    } else {
+      this.zeroCount++;
+    }
+    this.min = this.count === 0 ? value : Math.min(this.min, value);
+    this.max = this.count === 0 ? value : Math.max(this.max, value);
+    this.count++;
+    this.sum += value;
+  }
+
+  /**
+   * Adds the samples of another histogram with the same relative accuracy.
+   *
+   * @param other - The histogram to add
+   */
+  public merge(other: LatencyHistogram): void {
+    if (other.count === 0) return;
+    other.buckets.forEach((count, index) => {
+      this.buckets.set(index, (this.buckets.get(index) ?? 0) + count);
+    });
+    this.zeroCount += other.zeroCount;
+    this.min = this.count === 0 ? other.min : Math.min(this.min, other.min);
+    this.max = this.count === 0 ? other.max : Math.max(this.max, other.max);
+    this.count += other.count;
+    this.sum += other.sum;
+  }
+
+  /**
+   * Estimates a quantile of the samples.
+   *
+   * @param q - The quantile, between 0 and 1
+   * @returns The estimated value, exact for 0 and 1, and 0 when empty
+   */
+  public quantile(q: number): number {
+    if (this.count === 0) return 0;
+    const rank = Math.max(0, Math.min(1, q)) * (this.count - 1);
+    if (rank === 0) return this.min;
+    if (rank >= this.count - 1) return this.max;
+    let seen = this.zeroCount;
+    if (seen > rank) return 0;
+    const indexes = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+    for (let i = 0; i < indexes.length; i++) {
+      seen += this.buckets.get(indexes[i]);
+      if (seen > rank) {
+        // Midpoint of the bucket in relative terms, within relativeAccuracy of its samples
+        const estimate =
+          (2 * Math.pow(this.gamma, indexes[i])) / (this.gamma + 1);
+        return Math.min(this.max, Math.max(this.min, estimate));
+      }
+    }
+    return this.max;
+  }
+}
+
+/**
+ * Settings of a WindowedLatencyHistogram
+ */
+export interface WindowedLatencyHistogramOptions {
+  /** Largest relative error of estimated quantiles, between 0 and 1 */
+  relativeAccuracy: number;
+  /** Length of the time slots samples are grouped in, the precision of window edges */
+  slotMs: number;
+  /** Longest window that can be queried */
+  maxWindowMs: number;
+}
+
+/**
+ * Latency histogram over the whole lifetime plus recent time windows.
+ *
+ * Recent samples are kept in one histogram per time slot and merged on demand,
+ * so a window covers its length plus the part of the current slot that has passed.
+ */
+export class WindowedLatencyHistogram {
+  /** Every sample recorded */
+  public readonly total: LatencyHistogram;
+
+  /** Histograms of recent slots, oldest first */
+  private slots: { startedAt: number; histogram: LatencyHistogram }[] = [];
+
+  /**
+   * Creates a new, empty histogram.
+   *
+   * @param options - Accuracy, slot length and longest window
+   */
+  public constructor(
+    private readonly options: WindowedLatencyHistogramOptions,
+  ) {
+    this.total = new LatencyHistogram(options.relativeAccuracy);
+  }
+
+  /**
+   * Records a sample.
+   *
+   * @param value - The sample
+   * @param now - Time the sample was taken at
+   */
+  public record(value: number, now: number = Date.now()): void {
+    this.total.record(value);
+    const startedAt = now - (now % this.options.slotMs);
+    let slot = this.slots[this.slots.length - 1];
+    if (!slot || slot.startedAt !== startedAt) {
+      slot = {
+        startedAt,
+        histogram: new LatencyHistogram(this.options.relativeAccuracy),
+      };
+      this.slots.push(slot);
+      this.prune(now);
+    }
+    slot.histogram.record(value);
+  }
+
+  /**
+   * Merges the samples of a recent time window.
+   *
+   * @param windowMs - Length of the window, up to maxWindowMs
+   * @param now - End of the window
+   * @returns A histogram of the samples in the window
+   */
+  public window(windowMs: number, now: number = Date.now()): LatencyHistogram {
+    const histogram = new LatencyHistogram(this.options.relativeAccuracy);
+    this.slots.forEach((slot) => {
+      if (slot.startedAt > now - windowMs - this.options.slotMs) {
+        histogram.merge(slot.histogram);
+      }
+    });
+    return histogram;
+  }
+
+  /**
+   * Drops the slots that no window reaches any more.
+   *
+   * @param now - The current time
+   */
+  private prune(now: number): void {
+    const oldest = now - this.options.maxWindowMs - this.options.slotMs;
+    while (this.slots.length > 0 && this.slots[0].startedAt <= oldest) {
+      this.slots.shift();
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { PriorityQueue } from './priority-queue';
+
+describe('PriorityQueue', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should dequeue higher priorities first', () => {
+    const queue = new PriorityQueue<string>();
+    queue.push('low', -1);
+    queue.push('normal');
+    queue.push('high', 10);
+
+    expect(queue.pop()).toBe('high');
+    expect(queue.pop()).toBe('normal');
+    expect(queue.pop()).toBe('low');
+    expect(queue.pop()).toBeUndefined();
+  });
+
+  it('should dequeue equal priorities in FIFO order', () => {
+    const queue = new PriorityQueue<number>();
+    for (let i = 0; i < 20; i++) {
+      queue.push(i);
+    }
+
+    const dequeued: number[] = [];
+    while (queue.size > 0) {
+      dequeued.push(queue.pop());
+    }
+
+    expect(dequeued).toEqual(Array.from({ length: 20 }, (_, i) => i));
+  });
+
+  it('should let waiting items age past newer higher priorities', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const queue = new PriorityQueue<string>(100);
+    queue.push('background', 0);
+
+    now.mockReturnValue(250);
+    queue.push('interactive', 2);
+    expect(queue.peek()).toBe('background');
+
+    queue.push('urgent', 3);
+    expect(queue.peek()).toBe('urgent');
+  });
+
+  it('should only raise the priority of an item already queued', () => {
+    const queue = new PriorityQueue<string>();
+    queue.push('a', 1);
+    queue.push('b', 2);
+
+    queue.push('a', 0);
+    expect(queue.peek()).toBe('b');
+
+    queue.push('a', 5);
+    expect(queue.size).toBe(2);
+    expect(queue.peek()).toBe('a');
+  });
+
+  it('should delete items from anywhere in the queue', () => {
+    const queue = new PriorityQueue<string>();
+    ['a', 'b', 'c', 'd', 'e'].forEach((item, i) => queue.push(item, i));
+
+    expect(queue.delete('c')).toBe(true);
+    expect(queue.delete('c')).toBe(false);
+    expect(queue.has('c')).toBe(false);
+
+    const dequeued: string[] = [];
+    while (queue.size > 0) {
+      dequeued.push(queue.pop());
+    }
+    expect(dequeued).toEqual(['e', 'd', 'b', 'a']);
+  });
+
+  it('should empty the queue on clear', () => {
+    const queue = new PriorityQueue<string>();
+    queue.push('a');
+
+    queue.clear();
+
+    expect(queue.size).toBe(0);
+    expect(queue.has('a')).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+/** A queued item with its scheduling data */
+interface PriorityQueueEntry<T> {
+  item: T;
+  priority: number;
+  enqueuedAt: number;
+  /** Insertion sequence, breaking ties in FIFO order */
+  sequence: number;
+  /** Effective priority with aging folded in, higher comes first */
+  rank: number;
+  /** Position in the heap */
+  index: number;
+}
+
+/**
+ * A binary-heap priority queue with aging.
+ *
+ * Higher priorities are dequeued first, equal priorities in FIFO order.
+ * With aging, a waiting item gains one priority level every agingMs, so low-priority
+ * items can not starve. Every item ages at the same rate, which keeps the relative
+ * order fixed over time, so push, pop and delete all stay O(log n).
+ *
+ * @template T - The type of the queued items, compared by identity
+ */
+export class PriorityQueue<T> {
+  /** Heap of entries, the next item to dequeue at index 0 */
+  private heap: PriorityQueueEntry<T>[] = [];
+
+  /** Entries by item, for O(1) lookup */
+  private entries = new Map<T, PriorityQueueEntry<T>>();
+
+  /** Counter handing out insertion sequences */
+  private sequence: number = 0;
+
+  /**
+   * Creates a new priority queue.
+   *
+   * @param agingMs - Wait time after which an item gains one priority level, 0 disables aging
+   */
+  public constructor(private readonly agingMs: number = 0) {}
+
+  /**
+   * Gets the number of queued items.
+   */
+  public get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Checks whether an item is queued.
+   *
+   * @param item - The item to look for
+   * @returns True if the item is queued
+   */
+  public has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  /**
+   * Queues an item. An item that is already queued keeps its place in time
+   * and only has its priority raised, never lowered.
+   *
+   * @param item - The item to queue
+   * @param priority - Higher priorities are dequeued first
+   */
+  public push(item: T, priority: number = 0): void {
+    const existing = this.entries.get(item);
+    if (existing) {
+      if (priority > existing.priority) {
+        existing.priority = priority;
+        existing.rank = this.rankOf(priority, existing.enqueuedAt);
+        this.siftUp(existing.index);
+      }
+      return;
+    }
+    const enqueuedAt = Date.now();
+    const entry: PriorityQueueEntry<T> = {
+      item,
+      priority,
+      enqueuedAt,
+      sequence: this.sequence++,
+      rank: this.rankOf(priority, enqueuedAt),
+      index: this.heap.length,
+    };
+    this.heap.push(entry);
+    this.entries.set(item, entry);
+    this.siftUp(entry.index);
+  }
+
+  /**
+   * Removes and returns the item with the highest effective priority.
+   *
+   * @returns The next item, or undefined if the queue is empty
+   */
+  public pop(): T | undefined {
+    if (this.heap.length === 0) return undefined;
+    const item = this.heap[0].item;
+    this.delete(item);
+    return item;
+  }
+
+  /**
+   * Returns the item with the highest effective priority without removing it.
+   *
+   * @returns The next item, or undefined if the queue is empty
+   */
+  public peek(): T | undefined {
+    return this.heap[0]?.item;
+  }
+
+  /**
+   * Removes an item from the queue.
+   *
+   * @param item - The item to remove
+   * @returns True if the item was queued
+   */
+  public delete(item: T): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) return false;
+    this.entries.delete(item);
+    const last = this.heap.pop();
+    if (last !== entry) {
+      this.heap[entry.index] = last;
+      last.index = entry.index;
+      this.siftDown(last.index);
+      this.siftUp(last.index);
+    }
+    return true;
+  }
+
+  /**
+   * Removes every item from the queue.
+   */
+  public clear(): void {
+    this.heap = [];
+    this.entries.clear();
+  }
+
+  /**
+   * Folds aging into a static rank: items age at the same rate,
+   * so an earlier enqueue time is worth a fixed priority bonus.
+   */
+  private rankOf(priority: number, enqueuedAt: number): number {
+    return this.agingMs > 0 ? priority - enqueuedAt / this.agingMs : priority;
+  }
+
+  private isBefore(a: PriorityQueueEntry<T>, b: PriorityQueueEntry<T>) {
+    return a.rank !== b.rank ? a.rank > b.rank : a.sequence < b.sequence;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.isBefore(this.heap[index], this.heap[parent])) return;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let first = index;
+      if (left < length && this.isBefore(this.heap[left], this.heap[first])) {
+        first = left;
+      }
+      if (right < length && this.isBefore(this.heap[right], this.heap[first])) {
+        first = right;
+      }
+      if (first === index) return;
+      this.swap(index, first);
+      index = first;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const entry = this.heap[a];
+    this.heap[a] = this.heap[b];
+    this.heap[b] = entry;
+    this.heap[a].index = a;
+    this.heap[b].index = b;
+  }
+}
@@ -0,0 +1,84 @@
+import { delay } from './delay';
+import { retry, RetryOptions, retryDelay } from './retry';
+
+describe('retry', () => {
+  const options: RetryOptions = {
+    maxAttempts: 3,
+    baseDelayMs: 1,
+    maxDelayMs: 10,
+    jitter: false,
+    retryable: () => true,
+  };
+
+  it('should return the first successful attempt', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('transient'))
+      .mockResolvedValueOnce('value');
+
+    expect(await retry(fn, options)).toBe('value');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(fn).toHaveBeenNthCalledWith(1, 1);
+    expect(fn).toHaveBeenNthCalledWith(2, 2);
+  });
+
+  it('should throw the last error once the attempts run out', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockRejectedValueOnce(new Error('third'));
+
+    await expect(retry(fn, options)).rejects.toThrow('third');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry errors rejected by the predicate', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('fatal'));
+    const retryable = jest.fn(() => false);
+
+    await expect(retry(fn, { ...options, retryable })).rejects.toThrow('fatal');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(retryable).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+
+  it('should stop waiting for the next attempt when the signal aborts', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockRejectedValue(new Error('transient'));
+
+    const promise = retry(
+      fn,
+      { ...options, baseDelayMs: 1000, maxDelayMs: 1000 },
+      controller.signal,
+    );
+    await delay(5);
+    controller.abort(new Error('aborted'));
+
+    await expect(promise).rejects.toThrow('aborted');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  describe('retryDelay', () => {
+    it('should back off exponentially up to the cap', () => {
+      const backoff = { ...options, baseDelayMs: 100, maxDelayMs: 500 };
+
+      expect(retryDelay(1, backoff)).toBe(100);
+      expect(retryDelay(2, backoff)).toBe(200);
+      expect(retryDelay(3, backoff)).toBe(400);
+      expect(retryDelay(4, backoff)).toBe(500);
+    });
+
+    it('should randomize the delay with jitter', () => {
+      const jittered = {
+        ...options,
+        baseDelayMs: 100,
+        maxDelayMs: 1000,
+        jitter: true,
+      };
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(retryDelay(1, jittered)).toBe(50);
+      jest.restoreAllMocks();
+    });
+  });
+});
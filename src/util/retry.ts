@@ -0,0 +1,91 @@
+import { abortReason } from './abortable';
+
+/** Resolved retry settings, every option filled in */
+export interface RetryOptions {
+  /** Total number of attempts, the first one included */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds, doubled on every further retry */
+  baseDelayMs: number;
+  /** Upper bound of the delay between attempts in milliseconds */
+  maxDelayMs: number;
+  /** Whether each delay is randomized between 0 and its exponential value */
+  jitter: boolean;
+  /** Decides whether an error is retried */
+  retryable: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * Calculates the delay before the next attempt using capped exponential backoff.
+ *
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param options - The retry options
+ * @returns The delay in milliseconds
+ */
+export function retryDelay(attempt: number, options: RetryOptions): number {
+  const backoff = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * Math.pow(2, attempt - 1),
+  );
+  // Full jitter spreads retries of many callers over the whole window
+  return options.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Waits for a delay that ends early when the signal aborts.
+ *
+ * @param ms - The delay in milliseconds
+ * @param signal - Rejects the wait with the abort reason
+ */
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls an async function until it succeeds, backing off between attempts.
+ * Stops retrying when the attempts run out, when the error is not retryable,
+ * or when the signal aborts.
+ *
+ * @template T - The type of the function's resolved value
+ * @param fn - The function to call, receiving the attempt number starting at 1
+ * @param options - The retry options
+ * @param signal - Stops further attempts when aborted
+ * @returns The value of the first successful attempt
+ * @throws The error of the last attempt
+ *
+ * @example
+ * ```typescript
+ * const data = await retry(() => fetchData(), { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, jitter: true, retryable: () => true });
+ * ```
+ */
+export async function retry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal,
+): Promise<T> {
+  let attempt = 1;
+  for (;;) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (
+        attempt >= options.maxAttempts ||
+        signal?.aborted ||
+        !options.retryable(error as Error, attempt)
+      ) {
+        throw error;
+      }
+    }
+    await waitFor(retryDelay(attempt, options), signal);
+    attempt++;
+  }
+}
@@ -0,0 +1,77 @@
+import { SpaceSaving } from './space-saving';
+
+describe('SpaceSaving', () => {
+  it('should count keys exactly while under capacity', () => {
+    const summary = new SpaceSaving<string>(10);
+    summary.add('a', 'A');
+    summary.add('b', 'B', 5);
+    summary.add('a', 'A', 2);
+
+    expect(summary.top(10)).toEqual([
+      { id: 'b', item: 'B', count: 5, error: 0 },
+      { id: 'a', item: 'A', count: 3, error: 0 },
+    ]);
+  });
+
+  it('should limit the number of keys listed', () => {
+    const summary = new SpaceSaving<string>(10);
+    ['a', 'b', 'c'].forEach((id, i) => summary.add(id, id, i + 1));
+
+    expect(summary.top(2).map(({ id }) => id)).toEqual(['c', 'b']);
+    expect(summary.top(0)).toEqual([]);
+  });
+
+  it('should replace the least counted key once full', () => {
+    const summary = new SpaceSaving<string>(2);
+    summary.add('a', 'a', 5);
+    summary.add('b', 'b', 2);
+
+    summary.add('c', 'c');
+
+    expect(summary.top(2)).toEqual([
+      { id: 'a', item: 'a', count: 5, error: 0 },
+      { id: 'c', item: 'c', count: 3, error: 2 },
+    ]);
+  });
+
+  it('should keep the heavy hitters of a long tail', () => {
+    const summary = new SpaceSaving<string>(50);
+    for (let i = 0; i < 5000; i++) {
+      summary.add(`tail-${i}`, 'tail');
+      if (i % 10 === 0) summary.add('hot-1', 'hot');
+      if (i % 20 === 0) summary.add('hot-2', 'hot');
+    }
+
+    const top = summary.top(2);
+    expect(top.map(({ id }) => id)).toEqual(['hot-1', 'hot-2']);
+    top.forEach(({ id, count, error }) => {
+      const exact = id === 'hot-1' ? 500 : 250;
+      expect(count).toBeGreaterThanOrEqual(exact);
+      expect(count - error).toBeLessThanOrEqual(exact);
+    });
+  });
+
+  it('should report the latest item of a key', () => {
+    const summary = new SpaceSaving<{ id: number }>(10);
+    summary.add('a', { id: 1 });
+    summary.add('a', { id: 2 });
+
+    expect(summary.top(1)[0].item).toEqual({ id: 2 });
+  });
+
+  it('should ignore weights of zero or below', () => {
+    const summary = new SpaceSaving<string>(10);
+    summary.add('a', 'a', 0);
+
+    expect(summary.top(10)).toEqual([]);
+  });
+
+  it('should forget every key on clear', () => {
+    const summary = new SpaceSaving<string>(10);
+    summary.add('a', 'a');
+
+    summary.clear();
+
+    expect(summary.top(10)).toEqual([]);
+  });
+});
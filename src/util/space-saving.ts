@@ -0,0 +1,138 @@
+/** A tracked key of a SpaceSaving summary */
+export interface SpaceSavingEntry<T> {
+  /** Identifier the key is tracked under */
+  id: string;
+  /** Latest item added under the identifier */
+  item: T;
+  /** Estimated total weight, never below the true total */
+  count: number;
+  /** Largest possible overestimation of count */
+  error: number;
+}
+
+/**
+ * A fixed-memory top-K summary using the Space-Saving algorithm.
+ *
+ * Up to `capacity` keys are tracked. An untracked key replaces the key with the smallest
+ * count and takes over that count as its error, so counts are never underestimated and
+ * every key whose true total exceeds the smallest tracked count is guaranteed to be kept.
+ * The tracked keys sit in a min-heap, so each addition takes O(log capacity).
+ *
+ * @example
+ * ```typescript
+ * const summary = new SpaceSaving<string>(100);
+ * summary.add('key', 'key');
+ * summary.top(10); // [{ id: 'key', item: 'key', count: 1, error: 0 }]
+ * ```
+ */
+export class SpaceSaving<T> {
+  /** Tracked keys ordered as a min-heap by count */
+  private heap: SpaceSavingEntry<T>[] = [];
+
+  /** Heap positions by identifier */
+  private positions = new Map<string, number>();
+
+  /**
+   * Creates a new, empty summary.
+   *
+   * @param capacity - Most keys tracked at once
+   */
+  public constructor(private readonly capacity: number) {}
+
+  /**
+   * Adds weight to a key.
+   *
+   * @param id - Identifier of the key
+   * @param item - Item reported for the key
+   * @param weight - Weight to add, 1 by default
+   */
+  public add(id: string, item: T, weight: number = 1): void {
+    if (weight <= 0 || this.capacity <= 0) return;
+    const position = this.positions.get(id);
+    if (position !== undefined) {
+      const entry = this.heap[position];
+      entry.item = item;
+      entry.count += weight;
+      this.siftDown(position);
+      return;
+    }
+    if (this.heap.length < this.capacity) {
+      this.heap.push({ id, item, count: weight, error: 0 });
+      this.positions.set(id, this.heap.length - 1);
+      this.siftUp(this.heap.length - 1);
+      return;
+    }
+    // Replace the least counted key, inheriting its count as the error bound
+    const evicted = this.heap[0];
+    this.positions.delete(evicted.id);
+    this.heap[0] = {
+      id,
+      item,
+      count: evicted.count + weight,
+      error: evicted.count,
+    };
+    this.positions.set(id, 0);
+    this.siftDown(0);
+  }
+
+  /**
+   * Lists the keys with the highest counts.
+   *
+   * @param limit - Most keys to list
+   * @returns Copies of the entries, highest count first
+   */
+  public top(limit: number): SpaceSavingEntry<T>[] {
+    return this.heap
+      .map((entry) => ({ ...entry }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, Math.max(0, limit));
+  }
+
+  /**
+   * Stops tracking every key.
+   */
+  public clear(): void {
+    this.heap = [];
+    this.positions.clear();
+  }
+
+  private siftUp(position: number): void {
+    while (position > 0) {
+      const parent = (position - 1) >> 1;
+      if (this.heap[parent].count <= this.heap[position].count) return;
+      this.swap(parent, position);
+      position = parent;
+    }
+  }
+
+  private siftDown(position: number): void {
+    for (;;) {
+      const left = position * 2 + 1;
+      const right = left + 1;
+      let smallest = position;
+      if (
+        left < this.heap.length &&
+        this.heap[left].count < this.heap[smallest].count
+      ) {
+        smallest = left;
+      }
+      if (
+        right < this.heap.length &&
+        this.heap[right].count < this.heap[smallest].count
+      ) {
+        smallest = right;
+      }
+      if (smallest === position) return;
+      this.swap(smallest, position);
+      position = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const entry = this.heap[a];
+    this.heap[a] = this.heap[b];
+    this.heap[b] = entry;
+    this.positions.set(this.heap[a].id, a);
+    this.positions.set(this.heap[b].id, b);
+  }
+}
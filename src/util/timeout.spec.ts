@@ -1,3 +1,4 @@
+import { TimeoutError } from '../errors';
 import { limitTimeout } from './timeout';
 
 describe('limitTimeout', () => {
@@ -141,4 +142,55 @@ describe('limitTimeout', () => {
       expect(error.stack).toBe('Original stack trace');
     }
   });
+
+  it('should call onTimeout when the timeout fires', async () => {
+    const timeoutError = new Error('Request timeout');
+    const onTimeout = jest.fn();
+    const task = new Promise((resolve) => {
+      setTimeout(() => resolve('late result'), 2000);
+    });
+
+    const promise = limitTimeout(task, 1000, timeoutError, onTimeout);
+    jest.advanceTimersByTime(1001);
+
+    await expect(promise).rejects.toThrow('Request timeout');
+    expect(onTimeout).toHaveBeenCalledWith(timeoutError);
+  });
+
+  it('should not call onTimeout when the task settles first', async () => {
+    const onTimeout = jest.fn();
+    const task = Promise.resolve('success');
+
+    const promise = limitTimeout(task, 1000, new Error('Timeout'), onTimeout);
+    jest.advanceTimersByTime(500);
+
+    await expect(promise).resolves.toBe('success');
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should reject with a TimeoutError by default', async () => {
+    const task = new Promise((resolve) => {
+      setTimeout(() => resolve('late result'), 2000);
+    });
+
+    const promise = limitTimeout(task, 1000);
+    jest.advanceTimersByTime(1001);
+
+    await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+    await expect(promise).rejects.toHaveProperty('timeoutMs', 1000);
+  });
+
+  it('should resolve with an Error value instead of throwing it', async () => {
+    const value = new Error('a value, not a failure');
+
+    const result = await limitTimeout(Promise.resolve(value), 1000);
+
+    expect(result).toBe(value);
+  });
+
+  it('should clear the timer once the task settles', async () => {
+    await limitTimeout(Promise.resolve('success'), 1000);
+
+    expect(jest.getTimerCount()).toBe(0);
+  });
 });
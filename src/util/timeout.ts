@@ -1,41 +1,45 @@
-import { delay } from './delay';
+import { TimeoutError } from '../errors';
 
 /**
  * Limits the execution time of a promise with a timeout.
- * If the promise doesn't resolve within the specified timeout, it will reject with the provided error.
+ * If the promise doesn't settle within the specified timeout, it rejects with timeoutError.
  *
  * @template T - The type of the promise's resolved value
  * @param task - The promise to execute with timeout limitation
  * @param timeoutMillisecond - The timeout duration in milliseconds. If undefined or <= 0, no timeout is applied
- * @param timeoutError - The error to throw when timeout occurs
+ * @param timeoutError - The error to reject with when timeout occurs, a TimeoutError by default
+ * @param onTimeout - Called with timeoutError when the timeout fires, e.g. to abort the underlying work
  * @returns A promise that resolves with the task result or rejects with timeoutError on timeout
  *
  * @example
  * ```typescript
- * const result = await limitTimeout(
- *   fetch('/api/data'),
- *   5000,
- *   new Error('Request timeout')
- * );
+ * const result = await limitTimeout(fetch('/api/data'), 5000);
  * ```
  */
-export async function limitTimeout<T = any>(
+export function limitTimeout<T = any>(
   task: Promise<T>,
   timeoutMillisecond: number | undefined,
-  timeoutError: Error,
+  timeoutError: Error = new TimeoutError(timeoutMillisecond),
+  onTimeout?: (error: Error) => void,
 ): Promise<T> {
   if (timeoutMillisecond === undefined || timeoutMillisecond <= 0) {
     // No timeout configured or non-positive timeout, return task directly
     return task;
-  } else {
-    // Apply timeout
-    const timer = delay(timeoutMillisecond, timeoutError);
-    return Promise.race([task, timer]).then((res) => {
-      if (res instanceof Error) {
-        throw res;
-      } else {
-        return res;
-      }
-    });
   }
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout?.(timeoutError);
+      reject(timeoutError);
+    }, timeoutMillisecond);
+    task.then(
+      (result) => {
+        clearTimeout(timer);
+        resolve(result);
+      },
+      (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
 }
@@ -0,0 +1,58 @@
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should allow a burst up to the capacity', () => {
+    const bucket = new TokenBucket({
+      tokensPerInterval: 2,
+      intervalMs: 1000,
+      capacity: 3,
+    });
+
+    expect(bucket.available).toBe(3);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+  });
+
+  it('should refill at the configured rate', () => {
+    const bucket = new TokenBucket({
+      tokensPerInterval: 2,
+      intervalMs: 1000,
+      capacity: 2,
+    });
+    bucket.tryTake();
+    bucket.tryTake();
+
+    expect(bucket.msUntilAvailable()).toBe(500);
+    now += 499;
+    expect(bucket.tryTake()).toBe(false);
+    now += 1;
+    expect(bucket.msUntilAvailable()).toBe(0);
+    expect(bucket.tryTake()).toBe(true);
+  });
+
+  it('should not refill beyond the capacity', () => {
+    const bucket = new TokenBucket({
+      tokensPerInterval: 10,
+      intervalMs: 100,
+      capacity: 2,
+    });
+    bucket.tryTake();
+
+    now += 10_000;
+
+    expect(bucket.available).toBe(2);
+  });
+});
@@ -0,0 +1,80 @@
+/** Resolved token bucket settings */
+export interface TokenBucketOptions {
+  /** Tokens added per interval */
+  tokensPerInterval: number;
+  /** Interval length in milliseconds */
+  intervalMs: number;
+  /** Most tokens the bucket holds, the largest burst allowed after an idle period */
+  capacity: number;
+}
+
+/**
+ * Rate limiter handing out one token per operation.
+ *
+ * Tokens refill continuously at tokensPerInterval per intervalMs, up to the capacity.
+ * The bucket starts full, so up to capacity operations may run at once after an idle period.
+ */
+export class TokenBucket {
+  /** Tokens currently held, fractional between refills */
+  private tokens: number;
+
+  /** Timestamp the tokens were last refilled at */
+  private refilledAt: number = Date.now();
+
+  /** Tokens added per millisecond */
+  private readonly refillRate: number;
+
+  /**
+   * Creates a new, full token bucket.
+   *
+   * @param options - Resolved bucket settings
+   */
+  public constructor(private readonly options: TokenBucketOptions) {
+    this.tokens = options.capacity;
+    this.refillRate = options.tokensPerInterval / options.intervalMs;
+  }
+
+  /**
+   * Gets the number of whole tokens that can be taken right now.
+   */
+  public get available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * Takes a token if one is available.
+   *
+   * @returns True if a token was taken
+   */
+  public tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Gets how long until a token is available.
+   *
+   * @returns Wait time in milliseconds, 0 if a token is available now
+   */
+  public msUntilAvailable(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / this.refillRate);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.options.capacity,
+      this.tokens + (now - this.refilledAt) * this.refillRate,
+    );
+    this.refilledAt = now;
+  }
+}
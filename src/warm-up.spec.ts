@@ -0,0 +1,160 @@
+import { WarmUpProgress } from './define';
+import { WarmUpError } from './errors';
+import { PromiseCacher } from './promise-cacher';
+import { delay } from './util/delay';
+
+describe('PromiseCacher - warmUp', () => {
+  let cacher: PromiseCacher<string, string>;
+  let running: number;
+  let maxRunning: number;
+  let mockFetchFn: jest.Mock;
+
+  beforeEach(() => {
+    running = 0;
+    maxRunning = 0;
+    mockFetchFn = jest.fn(async (key: string) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(10);
+      running--;
+      if (key.startsWith('bad')) {
+        throw new Error(`failed ${key}`);
+      }
+      return `value-${key}`;
+    });
+  });
+
+  afterEach(() => {
+    cacher?.clear();
+    cacher = undefined;
+  });
+
+  async function* generateKeys(keys: string[]): AsyncGenerator<string> {
+    for (let i = 0; i < keys.length; i++) {
+      await delay(1);
+      yield keys[i];
+    }
+  }
+
+  it('should load every key and report the result', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+
+    const report = await cacher.warmUp(['a', 'b', 'c']);
+
+    expect(report.loaded).toBe(3);
+    expect(report.failures).toEqual([]);
+    expect(report.durationMs).toBeGreaterThanOrEqual(0);
+    expect(cacher.has('a')).toBe(true);
+    expect(cacher.has('c')).toBe(true);
+  });
+
+  it('should not count loading as requests', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+
+    await cacher.warmUp(['a', 'b']);
+
+    expect(cacher.statistics().efficiency.totalRequests).toBe(0);
+    expect(cacher.getTask('a').usedCount).toBe(0);
+  });
+
+  it('should reuse held values', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+    await cacher.get('a');
+
+    const report = await cacher.warmUp(['a', 'b']);
+
+    expect(report.loaded).toBe(2);
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should load from an async iterable', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+
+    const report = await cacher.warmUp(generateKeys(['a', 'b', 'c']));
+
+    expect(report.loaded).toBe(3);
+    expect(mockFetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should limit the keys loaded at the same time', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+
+    await cacher.warmUp(['a', 'b', 'c', 'd', 'e'], { concurrency: 2 });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should default to the fetching concurrency', async () => {
+    cacher = new PromiseCacher(mockFetchFn, {
+      fetchingPolicy: { concurrency: 3 },
+    });
+
+    await cacher.warmUp(['a', 'b', 'c', 'd', 'e', 'f']);
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should report failures and keep going', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+    const progress: WarmUpProgress<string>[] = [];
+
+    const report = await cacher.warmUp(['a', 'bad-1', 'b'], {
+      concurrency: 1,
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(report.loaded).toBe(2);
+    expect(report.failures).toEqual([
+      { key: 'bad-1', error: new Error('failed bad-1') },
+    ]);
+    expect(
+      progress.map(({ key, loaded, failed }) => [key, loaded, failed]),
+    ).toEqual([
+      ['a', 1, 0],
+      ['bad-1', 1, 1],
+      ['b', 2, 1],
+    ]);
+  });
+
+  it('should stop at the first failure with failFast', async () => {
+    cacher = new PromiseCacher(mockFetchFn);
+
+    const warmUp = cacher.warmUp(generateKeys(['a', 'bad-1', 'b', 'c']), {
+      concurrency: 1,
+      failFast: true,
+    });
+
+    const error = await warmUp.catch((reason: Error) => reason);
+    expect(error).toBeInstanceOf(WarmUpError);
+    const { report } = error as WarmUpError;
+    expect(report.loaded).toBe(1);
+    expect(report.failures.map(({ key }) => key)).toEqual(['bad-1']);
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  describe('ready', () => {
+    it('should resolve right away without warm-ups', async () => {
+      cacher = new PromiseCacher(mockFetchFn);
+
+      await expect(cacher.ready).resolves.toBeUndefined();
+    });
+
+    it('should resolve once every warm-up has finished', async () => {
+      cacher = new PromiseCacher(mockFetchFn);
+      void cacher.warmUp(['a']);
+      void cacher.warmUp(['b', 'c'], { concurrency: 1 });
+
+      await cacher.ready;
+
+      expect(cacher.has('a')).toBe(true);
+      expect(cacher.has('c')).toBe(true);
+    });
+
+    it('should reject when a warm-up fails fast', async () => {
+      cacher = new PromiseCacher(mockFetchFn);
+      cacher.warmUp(['bad-1'], { failFast: true }).catch(() => undefined);
+
+      await expect(cacher.ready).rejects.toBeInstanceOf(WarmUpError);
+    });
+  });
+});